@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { deleteAnalysis, getAnalysis } from '../../analysisStore';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const analysis = await getAnalysis(params.id);
+    if (!analysis) {
+      return NextResponse.json({ error: 'Analysis not found.' }, { status: 404 });
+    }
+    return NextResponse.json(analysis);
+  } catch (error) {
+    console.error('Failed to load analysis:', error);
+    return NextResponse.json({ error: 'Failed to load the analysis.' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    if (!await deleteAnalysis(params.id)) {
+      return NextResponse.json({ error: 'Analysis not found.' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete analysis:', error);
+    return NextResponse.json({ error: 'Failed to delete the analysis.' }, { status: 500 });
+  }
+}
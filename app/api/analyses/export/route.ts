@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysesExport, analysesToCsv } from '@/lib/analysisExport';
+import { getAnalyses } from '../../analysisStore';
+
+/**
+ * Exports saved analyses in full: nested as JSON (which the import route
+ * accepts back) or flattened to one CSV row per analysis. `ids` limits the
+ * export to those analyses.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const format = body?.format;
+  if (format !== 'csv' && format !== 'json') {
+    return NextResponse.json({ error: 'format must be "csv" or "json".' }, { status: 400 });
+  }
+  if (body.ids !== undefined && !(Array.isArray(body.ids) && body.ids.every((id: unknown) => typeof id === 'string'))) {
+    return NextResponse.json({ error: 'ids must be an array of strings.' }, { status: 400 });
+  }
+
+  try {
+    const analyses = await getAnalyses(body.ids);
+
+    if (format === 'csv') {
+      return new NextResponse(analysesToCsv(analyses), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="startup_idea_analyses.csv"',
+        },
+      });
+    }
+
+    const data: AnalysesExport = { exportedAt: new Date().toISOString(), analyses };
+    return new NextResponse(JSON.stringify(data, null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': 'attachment; filename="startup_idea_analyses.json"',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export analyses:', error);
+    return NextResponse.json({ error: 'Failed to export saved analyses.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAnalysisResult, isRecord, LegacySavedAnalysis, SavedAnalysis } from '@/lib/analysis';
+import { importAnalyses, importLegacyAnalyses, isValidAnalysisId } from '../../analysisStore';
+
+function isLegacySavedAnalysis(entry: unknown): entry is LegacySavedAnalysis {
+  return isRecord(entry)
+    && typeof entry.id === 'string'
+    && isValidAnalysisId(entry.id)
+    && typeof entry.date === 'string'
+    && typeof entry.idea === 'string'
+    && typeof entry.globalScore === 'number';
+}
+
+function isSavedAnalysis(entry: unknown): entry is SavedAnalysis {
+  return isRecord(entry)
+    && typeof entry.id === 'string'
+    && isValidAnalysisId(entry.id)
+    && typeof entry.createdAt === 'string'
+    && typeof entry.idea === 'string'
+    && typeof entry.globalScore === 'number'
+    && (entry.result === null || isAnalysisResult(entry.result));
+}
+
+/**
+ * Imports analyses exported as JSON (`{ analyses }` or a bare array), and the
+ * summaries the page used to keep in localStorage. Invalid entries, including
+ * results missing fields the report needs, are skipped and counted.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const entries: unknown[] | null = Array.isArray(body) ? body : Array.isArray(body?.analyses) ? body.analyses : null;
+  if (!entries) {
+    return NextResponse.json({ error: 'Request body must contain an analyses array.' }, { status: 400 });
+  }
+
+  const analyses = entries.filter(isSavedAnalysis);
+  const legacyAnalyses = entries.filter(isLegacySavedAnalysis);
+
+  try {
+    const restored = await importAnalyses(analyses);
+    const legacy = await importLegacyAnalyses(legacyAnalyses);
+    return NextResponse.json({
+      imported: restored.imported + legacy.imported,
+      duplicates: restored.duplicates + legacy.duplicates,
+      invalid: entries.length - analyses.length - legacyAnalyses.length,
+    });
+  } catch (error) {
+    console.error('Failed to import analyses:', error);
+    return NextResponse.json({ error: 'Failed to import saved analyses.' }, { status: 500 });
+  }
+}
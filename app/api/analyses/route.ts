@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listAnalyses, saveAnalysis, UnknownThreadError } from '../analysisStore';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ analyses: await listAnalyses() });
+  } catch (error) {
+    console.error('Failed to list analyses:', error);
+    return NextResponse.json({ error: 'Failed to load saved analyses.' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const result = body?.result;
+  if (!result || typeof result.idea !== 'string' || typeof result.globalScore !== 'number') {
+    return NextResponse.json({ error: 'Request body must contain a complete analysis result.' }, { status: 400 });
+  }
+  if (body.threadId !== undefined && typeof body.threadId !== 'string') {
+    return NextResponse.json({ error: 'threadId must be a string.' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await saveAnalysis(result, body.threadId), { status: 201 });
+  } catch (error) {
+    if (error instanceof UnknownThreadError) {
+      return NextResponse.json({ error: 'The idea thread to add this revision to no longer exists.' }, { status: 404 });
+    }
+    console.error('Failed to save analysis:', error);
+    return NextResponse.json({ error: 'Failed to save the analysis.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getThread } from '../../../analysisStore';
+
+interface RouteContext {
+  params: { threadId: string };
+}
+
+export async function GET(_req: Request, { params }: RouteContext) {
+  try {
+    const revisions = await getThread(params.threadId);
+    if (revisions.length === 0) {
+      return NextResponse.json({ error: 'Idea thread not found.' }, { status: 404 });
+    }
+    return NextResponse.json({ threadId: params.threadId, revisions });
+  } catch (error) {
+    console.error('Failed to load idea thread:', error);
+    return NextResponse.json({ error: 'Failed to load the idea thread.' }, { status: 500 });
+  }
+}
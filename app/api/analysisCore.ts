@@ -0,0 +1,666 @@
+import crypto from 'crypto';
+import { extractPitchDeck, getPitchDeckFormat, PitchDeckPage } from './pitchDeckParser';
+import { calculateGlobalScore, calculateWeightedScore, normalizeScore, resolveWeights, Weights } from '@/lib/scoring';
+import { classifyDeckPages, getMemoCitations, getMemoSourceText } from '@/lib/deckSections';
+import { extractDeckFigures, formatDeckFigure, getDeckFigureMetrics } from '@/lib/deckFigures';
+import { analyzeSentiment } from '@/lib/sentiment';
+import { verifyEvidence } from '@/lib/scoreEvidence';
+import { DEFAULT_STARTUP_STAGE, parseStartupStage, STAGE_RUBRICS, StageRubric, StartupStage } from '@/lib/stageRubric';
+import {
+  getCategoryCriteria,
+  getStageCriteria,
+  RubricCriterion,
+  ScoringRubric,
+  toRubricSnapshot,
+} from '@/lib/scoringRubric';
+import { getRubric } from './rubricStore';
+import { LlmResponseError, requestValidatedJson, Schema } from './llmSchema';
+import { getLlmProvider, LlmProvider } from './llmProvider';
+import {
+  AnalysisInputs,
+  AnalysisResult,
+  AnalysisScores,
+  AnalysisStage,
+  DECK_FIGURE_LABELS,
+  DeckFigure,
+  DeckPageSection,
+  DueDiligencePoint,
+  INVESTMENT_MEMO_SCORE_LABELS,
+  INVESTMENT_MEMO_SECTION_LABELS,
+  IndustryAverages,
+  InvestmentMemo,
+  InvestmentMemoScores,
+  MemoCitations,
+  PitchDeckStats,
+  ScoreExplanation,
+} from '@/lib/analysis';
+
+const MAX_CONTENT_LENGTH = 500000;
+const MAX_SUMMARY_LENGTH = 100;
+const MAX_DECK_PROMPT_LENGTH = 8000;
+const MAX_SECTION_PROMPT_LENGTH = 600;
+const MAX_SECTION_FILL_LENGTH = 1000;
+
+const scoreSchema: Schema = { type: 'number', min: 0, max: 100, required: true };
+const textSchema: Schema = { type: 'string' };
+const listSchema: Schema = { type: 'array', items: { type: 'string' } };
+const risksSchema: Schema = {
+  type: 'array',
+  items: { type: 'object', required: true, properties: { risk: { type: 'string', required: true }, mitigation: { type: 'string', required: true } } },
+};
+// The page is only a hint; quotes are looked up in the whole deck
+const evidenceSchema: Schema = {
+  type: 'array',
+  items: { type: 'object', required: true, properties: { quote: { type: 'string', required: true }, page: { type: 'number', min: 0, max: 1000 } } },
+};
+const explanationSchema: Schema = { type: 'object', properties: { rationale: textSchema, evidence: evidenceSchema } };
+
+// One point per criterion of the category
+function dueDiligenceSchema(criteria: number): Schema {
+  return {
+    type: 'array',
+    minItems: criteria,
+    items: {
+      type: 'object',
+      required: true,
+      properties: { point: { type: 'string', required: true }, score: scoreSchema, rationale: textSchema, evidence: evidenceSchema },
+    },
+  };
+}
+
+function getAnalysisSchema(criteria: RubricCriterion[]): Schema {
+  return {
+    type: 'object',
+    required: true,
+    properties: {
+      idea: { type: 'string', required: true },
+      swot: {
+        type: 'object',
+        properties: { strengths: listSchema, weaknesses: listSchema, opportunities: listSchema, threats: listSchema },
+      },
+      criticalQuestions: listSchema,
+      actionPlan: listSchema,
+      targetMarketStrategies: listSchema,
+      competition: listSchema,
+      marketDemandIndicators: listSchema,
+      frameworks: listSchema,
+      investmentMemo: {
+        type: 'object',
+        properties: {
+          summary: textSchema,
+          marketOpportunity: textSchema,
+          businessModel: textSchema,
+          competitiveAdvantage: textSchema,
+          financialProjections: textSchema,
+          fundingRequirements: textSchema,
+          productOverview: textSchema,
+          teamBackground: textSchema,
+          goToMarketStrategy: textSchema,
+          keyMetrics: { type: 'object', properties: { tam: textSchema, sam: textSchema, som: textSchema } },
+          keyRisksAndMitigation: risksSchema,
+        },
+      },
+      dueDiligenceTech: dueDiligenceSchema(getCategoryCriteria(criteria, 'tech').length),
+      dueDiligenceGTM: dueDiligenceSchema(getCategoryCriteria(criteria, 'gtm').length),
+      investmentMemoScores: {
+        type: 'object',
+        required: true,
+        properties: {
+          summary: scoreSchema,
+          marketOpportunity: scoreSchema,
+          businessModel: scoreSchema,
+          competitiveAdvantage: scoreSchema,
+          financialProjections: scoreSchema,
+          fundingRequirements: scoreSchema,
+          productOverview: scoreSchema,
+          teamBackground: scoreSchema,
+          goToMarketStrategy: scoreSchema,
+          keyRisksAndMitigation: scoreSchema,
+        },
+      },
+      investmentMemoScoreExplanations: {
+        type: 'object',
+        properties: Object.fromEntries(Object.keys(INVESTMENT_MEMO_SCORE_LABELS).map((key) => [key, explanationSchema])),
+      },
+    },
+  };
+}
+
+const industryAveragesSchema: Schema = {
+  type: 'object',
+  required: true,
+  properties: {
+    averageFunding: textSchema,
+    averageTimeToMarket: textSchema,
+    averageCAC: textSchema,
+    averageLTV: textSchema,
+    averageBurnRate: textSchema,
+    averageRevenueGrowth: textSchema,
+  },
+};
+
+function truncateContent(content: string, maxLength: number): string {
+  if (content.length <= maxLength) return content;
+  return content.slice(0, maxLength) + '... (truncated)';
+}
+
+async function summarizePitchDeck(provider: LlmProvider, content: string): Promise<string> {
+  const summarizationPrompt = `Summarize the key points of this pitch deck in ${MAX_SUMMARY_LENGTH} words or less:\n\n${truncateContent(content, MAX_DECK_PROMPT_LENGTH)}`;
+
+  const summary = await provider.complete([{ role: "user", content: summarizationPrompt }], 'pitch-deck-summary');
+
+  return truncateContent(summary || '', MAX_SUMMARY_LENGTH * 7);
+}
+
+// The due diligence points must already be matched one to one with the rubric's criteria
+function calculateScores(parsedResponse: GeneratedAnalysis, weights: Weights, criteria: RubricCriterion[]): AnalysisScores {
+  // Calculate Tech Score (weighted by the rubric's tech criteria)
+  const techScore = calculateWeightedScore(
+    parsedResponse.dueDiligenceTech.map((item) => item.score),
+    getCategoryCriteria(criteria, 'tech').map((criterion) => criterion.weight)
+  );
+
+  // Calculate GTM Score (weighted by the rubric's go-to-market criteria)
+  const gtmScore = calculateWeightedScore(
+    parsedResponse.dueDiligenceGTM.map((item) => item.score),
+    getCategoryCriteria(criteria, 'gtm').map((criterion) => criterion.weight)
+  );
+
+  // Calculate Confidence Score (based on investment memo scores)
+  const memoScores: number[] = Object.values(parsedResponse.investmentMemoScores);
+  const confidenceScore = memoScores.reduce((sum, score) => sum + score, 0) / memoScores.length;
+
+  // Calculate Global Score (weighted average of the other scores)
+  const globalScore = calculateGlobalScore({ techScore, gtmScore, confidenceScore }, weights);
+
+  return {
+    techScore: normalizeScore(techScore),
+    gtmScore: normalizeScore(gtmScore),
+    confidenceScore: normalizeScore(confidenceScore),
+    globalScore: normalizeScore(globalScore)
+  };
+}
+
+export interface AnalysisFields {
+  query?: string;
+  targetMarket?: string;
+  startupStage?: string;
+  customWeights?: string;
+  rubricId?: string;
+}
+
+export interface PitchDeckUpload {
+  buffer: Buffer;
+  filename: string;
+}
+
+export interface AnalysisInput {
+  query: string;
+  targetMarket: string;
+  startupStage: StartupStage;
+  weights: Weights;
+  // The team rubric to score with; the stage rubric's criteria are used without one
+  rubric: ScoringRubric | null;
+  pitchDeck: PitchDeckUpload | null;
+}
+
+export type EmitStage = (stage: AnalysisStage, data: unknown) => void;
+
+// The parts of the analysis the model generates; scores and averages are added afterwards
+type GeneratedAnalysis = Omit<AnalysisResult,
+  | 'inputs'
+  | keyof AnalysisScores
+  | 'industryAverages'
+  | 'weights'
+  | 'startupStage'
+  | 'stageRubric'
+  | 'scoringRubric'
+  | 'targetMarket'
+  | 'pitchDeckProcessed'
+  | 'pitchDeckStats'
+  | 'deckOverrides'
+  | 'deckSections'
+  | 'memoCitations'
+  | 'deckFigures'
+  | 'overallSentiment'
+  | 'sentimentScores'
+  | 'sectionSentiment'
+  | 'negativePassages'
+  | 'repairs'
+>;
+
+export class AnalysisInputError extends Error {
+  constructor(message: string, public readonly details: string[] = []) {
+    super(message);
+    this.name = 'AnalysisInputError';
+  }
+}
+
+/**
+ * Validates the form fields shared by both entry points, resolves the
+ * weights for the requested stage and loads the requested scoring rubric.
+ * Throws AnalysisInputError on bad input.
+ */
+export async function buildAnalysisInput(fields: AnalysisFields, pitchDeck: PitchDeckUpload | null): Promise<AnalysisInput> {
+  const query = fields.query?.trim();
+  if (!query) {
+    throw new AnalysisInputError('Please describe your startup idea.');
+  }
+
+  const startupStage = fields.startupStage?.trim() ? parseStartupStage(fields.startupStage) : DEFAULT_STARTUP_STAGE;
+  if (!startupStage) {
+    throw new AnalysisInputError(`Unknown startupStage "${fields.startupStage}".`, [
+      `Use one of: ${Object.keys(STAGE_RUBRICS).join(', ')}`,
+    ]);
+  }
+
+  let customWeights: Partial<Record<keyof Weights, unknown>> | null = null;
+  try {
+    customWeights = JSON.parse(fields.customWeights || '{}');
+  } catch {
+    // Reported below together with non-object values
+  }
+  if (!customWeights || typeof customWeights !== 'object' || Array.isArray(customWeights)) {
+    throw new AnalysisInputError('customWeights must be a JSON object.');
+  }
+
+  const { weights, errors: weightErrors } = resolveWeights(startupStage, customWeights);
+  if (weightErrors.length > 0) {
+    throw new AnalysisInputError('Invalid customWeights.', weightErrors);
+  }
+
+  if (pitchDeck && !getPitchDeckFormat(pitchDeck.filename)) {
+    throw new AnalysisInputError('Invalid file type. Please upload a PDF or PowerPoint file.');
+  }
+
+  const rubric = fields.rubricId ? await getRubric(fields.rubricId) : null;
+  if (fields.rubricId && !rubric) {
+    throw new AnalysisInputError('Scoring rubric not found.');
+  }
+
+  return { query, targetMarket: fields.targetMarket?.trim() || '', startupStage, weights, rubric, pitchDeck };
+}
+
+export function getAnalysisErrorResponse(error: unknown): { status: number; body: { error: string; details?: string[] } } {
+  if (error instanceof AnalysisInputError) {
+    return { status: 400, body: { error: error.message, details: error.details } };
+  }
+  if (error instanceof LlmResponseError) {
+    return { status: 502, body: { error: 'The AI model returned an unusable analysis. Please try again.', details: error.details } };
+  }
+  return { status: 500, body: { error: 'An error occurred while processing your request.' } };
+}
+
+/**
+ * Runs the full pipeline: deck extraction and summary, the analysis itself,
+ * scoring and industry averages. `emit` is called after each stage with the
+ * partial result so callers can stream progress.
+ */
+export async function runAnalysis(
+  { query, targetMarket, pitchDeck, startupStage, weights, rubric }: AnalysisInput,
+  emit: EmitStage = () => {}
+): Promise<AnalysisResult> {
+  const provider = getLlmProvider();
+  const stageRubric = STAGE_RUBRICS[startupStage];
+  const criteria = rubric ? rubric.criteria : getStageCriteria(stageRubric);
+  const techCriteria = getCategoryCriteria(criteria, 'tech');
+  const gtmCriteria = getCategoryCriteria(criteria, 'gtm');
+  const scoringRubric = rubric ? toRubricSnapshot(rubric) : undefined;
+  const inputs: AnalysisInputs = {
+    query,
+    targetMarket,
+    startupStage,
+    pitchDeck: pitchDeck
+      ? { filename: pitchDeck.filename, sha256: crypto.createHash('sha256').update(pitchDeck.buffer).digest('hex') }
+      : null,
+  };
+
+  let pitchDeckText = '';
+  let pitchDeckContent = '';
+  let pitchDeckStats: PitchDeckStats | null = null;
+  let deckSections: DeckPageSection[] = [];
+  let memoCitations: MemoCitations = {};
+  let memoSourceText: Partial<Record<keyof InvestmentMemo, string>> = {};
+  let deckFigures: DeckFigure[] = [];
+  let deckPages: PitchDeckPage[] = [];
+  if (pitchDeck) {
+    const extraction = await extractPitchDeck(pitchDeck.buffer, pitchDeck.filename);
+    console.log('Pitch deck extracted:', extraction.stats);
+
+    pitchDeckText = extraction.text;
+    pitchDeckStats = extraction.stats;
+    deckSections = classifyDeckPages(extraction.pages);
+    memoCitations = getMemoCitations(deckSections);
+    memoSourceText = getMemoSourceText(extraction.pages, memoCitations);
+    deckFigures = extractDeckFigures(extraction.pages);
+    deckPages = extraction.pages;
+    emit('deck-parsed', { pitchDeckStats, deckSections, deckFigures });
+
+    pitchDeckContent = await summarizePitchDeck(provider, extraction.text);
+    emit('deck-summarized', { summary: pitchDeckContent });
+  }
+
+  // First OpenAI API call
+  const initialPrompt = `
+    Analyze this startup idea very briefly:
+    
+    Idea: ${truncateContent(query, 200)}
+    ${targetMarket ? `Target Market: ${truncateContent(targetMarket, 200)}` : ''}
+    ${pitchDeckContent ? `Pitch Deck: ${pitchDeckContent}` : ''}
+    ${formatMemoSources(memoSourceText)}
+    ${formatDeckPages(deckPages)}
+    ${formatDeckFigures(deckFigures)}
+    ${formatStageRubric(stageRubric)}
+    Technical Due Diligence Criteria:
+    ${formatRubricCriteria(techCriteria)}
+    Go-to-Market Due Diligence Criteria:
+    ${formatRubricCriteria(gtmCriteria)}
+
+    Provide a concise analysis with:
+    1. SWOT (1 each)
+    2. 2 critical questions
+    3. 3-step action plan
+    4. 2 target market strategies
+    5. 2 main competitors
+    6. 2 market demand indicators
+    7. 2 relevant frameworks
+    8. Investment memo (summary, product overview, market opportunity, business model, competitive advantage, go-to-market strategy, team background, financial projections, funding requirements)
+    9. Key metrics (TAM, SAM, SOM)
+    10. 2 key risks, each with a mitigation
+    11. ${techCriteria.length} technical due diligence points with scores (0-100%), one for each technical criterion, in the order listed
+    12. ${gtmCriteria.length} go-to-market due diligence points with scores (0-100%), one for each go-to-market criterion, in the order listed
+    13. 10 investment memo quality scores (0-100%), one for each section of the investment memo and one for the key risks
+    14. A one-sentence rationale for every due diligence point and investment memo score
+
+    Use the pitch deck information (if available) to inform your analysis, especially for the due diligence points and scores.
+    Score against what is expected at this startup stage, not against a later one.
+    Base each investment memo section on the deck slides listed for it, if any.
+    Describe the team only from what the pitch deck says about it; without a deck, name the roles the team will need instead of inventing people.
+    ${deckPages.length > 0
+      ? 'Back each rationale with up to 3 short quotes copied word for word from the pitch deck pages, each with its page number. Never paraphrase a quote; leave the evidence empty if the deck says nothing relevant.'
+      : 'There is no pitch deck, so leave every evidence list empty.'}
+
+    JSON format:
+    {
+      "idea": "Summary",
+      "swot": {
+        "strengths": ["S1"],
+        "weaknesses": ["W1"],
+        "opportunities": ["O1"],
+        "threats": ["T1"]
+      },
+      "criticalQuestions": ["Q1", "Q2"],
+      "actionPlan": ["Step1", "Step2", "Step3"],
+      "targetMarketStrategies": ["Strategy1", "Strategy2"],
+      "competition": ["Competitor1", "Competitor2"],
+      "marketDemandIndicators": ["Indicator1", "Indicator2"],
+      "frameworks": ["Framework1", "Framework2"],
+      "investmentMemo": {
+        "summary": "Brief summary",
+        "marketOpportunity": "Market opportunity",
+        "businessModel": "Business model",
+        "competitiveAdvantage": "Competitive advantage",
+        "financialProjections": "Financial projections",
+        "fundingRequirements": "Funding requirements",
+        "productOverview": "Product overview",
+        "teamBackground": "Team background",
+        "goToMarketStrategy": "Go-to-market strategy",
+        "keyMetrics": {
+          "tam": "Total Addressable Market size",
+          "sam": "Serviceable Addressable Market size",
+          "som": "Serviceable Obtainable Market size"
+        },
+        "keyRisksAndMitigation": [
+          {"risk": "Risk1", "mitigation": "Mitigation1"},
+          {"risk": "Risk2", "mitigation": "Mitigation2"}
+        ]
+      },
+      "dueDiligenceTech": [
+        ${formatDueDiligenceTemplate(techCriteria)}
+      ],
+      "dueDiligenceGTM": [
+        ${formatDueDiligenceTemplate(gtmCriteria)}
+      ],
+      "investmentMemoScores": {
+        "summary": 0,
+        "marketOpportunity": 0,
+        "businessModel": 0,
+        "competitiveAdvantage": 0,
+        "financialProjections": 0,
+        "fundingRequirements": 0,
+        "productOverview": 0,
+        "teamBackground": 0,
+        "goToMarketStrategy": 0,
+        "keyRisksAndMitigation": 0
+      },
+      "investmentMemoScoreExplanations": {
+        ${formatMemoExplanationTemplate()}
+      }
+    }
+    Keep all responses extremely brief.
+  `;
+
+  const analysis = await requestValidatedJson<GeneratedAnalysis>('analysis', initialPrompt, getAnalysisSchema(criteria), provider);
+  const parsedResponse = analysis.data;
+  parsedResponse.dueDiligenceTech = matchCriteria(parsedResponse.dueDiligenceTech, techCriteria);
+  parsedResponse.dueDiligenceGTM = matchCriteria(parsedResponse.dueDiligenceGTM, gtmCriteria);
+  const evidenceRepairs = verifyScoreEvidence(parsedResponse, deckPages);
+  console.log('Parsed OpenAI Response:', parsedResponse);
+
+  const deckOverrides = pitchDeckText
+    ? applyDeckOverrides(parsedResponse.investmentMemo, memoSourceText, deckFigures)
+    : [];
+  const sentiment = analyzeSentiment({ idea: query, deckPages, swot: parsedResponse.swot });
+  emit('analysis-ready', {
+    ...parsedResponse,
+    inputs,
+    startupStage,
+    stageRubric,
+    scoringRubric,
+    targetMarket,
+    weights,
+    deckOverrides,
+    deckSections,
+    memoCitations,
+    deckFigures,
+    ...sentiment,
+  });
+
+  // Calculate scores
+  const scores = calculateScores(parsedResponse, weights, criteria);
+  emit('scores-computed', scores);
+
+  // Second OpenAI API call for industry averages
+  const industryAveragesPrompt = `
+    Based on the following startup idea analysis, provide industry averages for key metrics:
+
+    ${JSON.stringify(parsedResponse, null, 2)}
+
+    Please provide industry averages for:
+    1. Average funding raised at this stage
+    2. Average time to market
+    3. Average customer acquisition cost
+    4. Average lifetime value of a customer
+    5. Average burn rate
+    6. Average revenue growth rate
+
+    Respond in JSON format:
+    {
+      "averageFunding": "Amount in USD",
+      "averageTimeToMarket": "Time in months",
+      "averageCAC": "Amount in USD",
+      "averageLTV": "Amount in USD",
+      "averageBurnRate": "Amount in USD per month",
+      "averageRevenueGrowth": "Percentage per year"
+    }
+  `;
+
+  const industryAveragesResult = await requestValidatedJson<IndustryAverages>(
+    'industry-averages',
+    industryAveragesPrompt,
+    industryAveragesSchema,
+    provider
+  );
+  const industryAverages = industryAveragesResult.data;
+  emit('industry-averages-ready', industryAverages);
+
+  // Combine the initial analysis with industry averages and calculated scores
+  const combinedResponse: AnalysisResult = {
+    ...parsedResponse,
+    investmentMemo: {
+      ...parsedResponse.investmentMemo,
+      keyMetrics: {
+        ...parsedResponse.investmentMemo.keyMetrics,
+        cac: industryAverages.averageCAC,
+        ltv: industryAverages.averageLTV,
+        burnRate: industryAverages.averageBurnRate,
+        // Figures stated in the deck beat the industry averages
+        ...getDeckFigureMetrics(deckFigures),
+      }
+    },
+    industryAverages,
+    ...scores,
+    inputs,
+    weights,
+    startupStage,
+    stageRubric,
+    scoringRubric,
+    targetMarket,
+    deckOverrides,
+    deckSections,
+    memoCitations,
+    deckFigures,
+    ...sentiment,
+    repairs: {
+      analysis: [...analysis.repairs, ...evidenceRepairs],
+      industryAverages: industryAveragesResult.repairs,
+    },
+    pitchDeckProcessed: pitchDeckStats !== null,
+    pitchDeckStats
+  };
+
+  console.log('Final Response:', combinedResponse);
+  return combinedResponse;
+}
+
+// The slides classified into each memo section, so the model writes those sections from them
+function formatMemoSources(memoSourceText: Partial<Record<keyof InvestmentMemo, string>>): string {
+  const lines = (Object.entries(memoSourceText) as [keyof InvestmentMemo, string][])
+    .filter(([, text]) => text.length > 0)
+    .map(([field, text]) => `- ${INVESTMENT_MEMO_SECTION_LABELS[field] ?? field}: ${truncateContent(text, MAX_SECTION_PROMPT_LENGTH)}`);
+  return lines.length > 0 ? `Pitch Deck Slides by Memo Section:\n${lines.join('\n')}` : '';
+}
+
+function formatStageRubric(rubric: StageRubric): string {
+  return `Startup Stage: ${rubric.label}
+    Expected at this stage: ${rubric.expectations.join('; ')}`;
+}
+
+// "2. Data security (weight 2): How customer data is protected. Scoring: 90+ for SOC 2 certified"
+function formatRubricCriteria(criteria: RubricCriterion[]): string {
+  return criteria
+    .map((criterion, index) => {
+      const details = [criterion.description, criterion.guidance && `Scoring: ${criterion.guidance}`].filter(Boolean).join(' ');
+      return `${index + 1}. ${criterion.name} (weight ${criterion.weight})${details ? `: ${details}` : ''}`;
+    })
+    .join('\n    ');
+}
+
+const EXPLANATION_TEMPLATE = '"rationale": "Why this score", "evidence": [{"quote": "Words copied from the deck", "page": 1}]';
+
+function formatDueDiligenceTemplate(criteria: RubricCriterion[]): string {
+  return criteria
+    .map((criterion) => `{"point": ${JSON.stringify(`Finding on ${criterion.name}`)}, "score": 0, ${EXPLANATION_TEMPLATE}}`)
+    .join(',\n        ');
+}
+
+function formatMemoExplanationTemplate(): string {
+  return Object.keys(INVESTMENT_MEMO_SCORE_LABELS)
+    .map((key) => `"${key}": {${EXPLANATION_TEMPLATE}}`)
+    .join(',\n        ');
+}
+
+// Every page of the deck, numbered, so the model can quote it as evidence
+function formatDeckPages(pages: PitchDeckPage[]): string {
+  const text = pages
+    .map((page) => `Page ${page.number}: ${truncateContent(page.text.replace(/\s+/g, ' ').trim(), MAX_SECTION_PROMPT_LENGTH)}`)
+    .join('\n');
+  return text ? `Pitch Deck Pages:\n${truncateContent(text, MAX_DECK_PROMPT_LENGTH)}` : '';
+}
+
+/**
+ * Keeps only the evidence quotes found in the deck's extracted text and
+ * returns a repair note for every score that lost some. Without a deck all
+ * evidence is dropped.
+ */
+function verifyScoreEvidence(parsedResponse: GeneratedAnalysis, deckPages: PitchDeckPage[]): string[] {
+  const repairs: string[] = [];
+  function verify<T extends Partial<ScoreExplanation>>(item: T, path: string): T {
+    const evidence = item.evidence ?? [];
+    const verified = verifyEvidence(evidence, deckPages);
+    if (verified.length < evidence.length) {
+      repairs.push(`${path}.evidence: kept ${verified.length} of ${evidence.length} quote(s) after checking them against the deck`);
+    }
+    return { ...item, evidence: verified };
+  }
+
+  parsedResponse.dueDiligenceTech = parsedResponse.dueDiligenceTech.map((item, index) => verify(item, `dueDiligenceTech[${index}]`));
+  parsedResponse.dueDiligenceGTM = parsedResponse.dueDiligenceGTM.map((item, index) => verify(item, `dueDiligenceGTM[${index}]`));
+
+  const explanations = parsedResponse.investmentMemoScoreExplanations ?? {};
+  (Object.keys(explanations) as (keyof InvestmentMemoScores)[]).forEach((key) => {
+    const explanation = explanations[key];
+    if (explanation) {
+      explanations[key] = verify(explanation, `investmentMemoScoreExplanations.${key}`);
+    }
+  });
+  parsedResponse.investmentMemoScoreExplanations = explanations;
+  return repairs;
+}
+
+// Labels each point with the criterion it scores; points beyond the rubric's criteria are dropped
+function matchCriteria(points: DueDiligencePoint[], criteria: RubricCriterion[]): DueDiligencePoint[] {
+  return criteria.map((criterion, index) => ({ ...points[index], criterion: criterion.name, weight: criterion.weight }));
+}
+
+function formatDeckFigures(figures: DeckFigure[]): string {
+  if (figures.length === 0) return '';
+  return `Figures Stated in the Pitch Deck: ${figures
+    .map((figure) => `${DECK_FIGURE_LABELS[figure.kind]}: ${formatDeckFigure(figure)}`)
+    .join('; ')}`;
+}
+
+/**
+ * Takes the raise and key metrics from the figures stated in the deck and
+ * fills memo sections the model left empty with the text of the slides
+ * classified into them.
+ */
+function applyDeckOverrides(
+  memo: InvestmentMemo,
+  memoSourceText: Partial<Record<keyof InvestmentMemo, string>>,
+  deckFigures: DeckFigure[]
+): (keyof InvestmentMemo)[] {
+  const overrides: (keyof InvestmentMemo)[] = [];
+
+  const raise = deckFigures.find((figure) => figure.kind === 'raise');
+  if (raise) {
+    memo.fundingRequirements = formatDeckFigure(raise);
+    overrides.push('fundingRequirements');
+  }
+
+  const metrics = getDeckFigureMetrics(deckFigures);
+  if (Object.keys(metrics).length > 0) {
+    memo.keyMetrics = { ...memo.keyMetrics, ...metrics };
+    overrides.push('keyMetrics');
+  }
+
+  (Object.entries(memoSourceText) as [keyof InvestmentMemo, string][]).forEach(([field, text]) => {
+    if (field === 'keyMetrics' || field === 'keyRisksAndMitigation' || overrides.includes(field)) return;
+    if (text && !(memo[field] as string | undefined)?.trim()) {
+      (memo[field] as string) = truncateContent(text, MAX_SECTION_FILL_LENGTH);
+      overrides.push(field);
+    }
+  });
+
+  return overrides;
+}
@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { AnalysisResult, LegacySavedAnalysis, SavedAnalysis, SavedAnalysisSummary } from '@/lib/analysis';
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), 'data', 'analyses');
+const ID_PATTERN = /^[\w-]+$/;
+
+export class UnknownThreadError extends Error {
+  constructor(threadId: string) {
+    super(`No saved analyses in thread "${threadId}"`);
+    this.name = 'UnknownThreadError';
+  }
+}
+
+function getStoreDir(): string {
+  return process.env.ANALYSIS_STORE_DIR || DEFAULT_STORE_DIR;
+}
+
+// Ids end up in file names, so anything that could escape the store directory is rejected
+export function isValidAnalysisId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+function analysisPath(id: string): string | null {
+  return isValidAnalysisId(id) ? path.join(getStoreDir(), `${id}.json`) : null;
+}
+
+async function readAnalysisFile(filePath: string): Promise<SavedAnalysis | null> {
+  try {
+    const analysis: SavedAnalysis = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    // Analyses saved before threads existed start a thread of their own
+    return { ...analysis, threadId: analysis.threadId ?? analysis.id, revision: analysis.revision ?? 1 };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    // A corrupt file is left for inspection rather than failing every listing
+    if (error instanceof SyntaxError) {
+      console.error(`Skipping unreadable analysis file ${filePath}:`, error);
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Written to a temporary file first so a crash never leaves a half-written analysis behind
+async function writeAnalysisFile(analysis: SavedAnalysis): Promise<void> {
+  const filePath = analysisPath(analysis.id);
+  if (!filePath) {
+    throw new Error(`Invalid analysis id "${analysis.id}"`);
+  }
+
+  await fs.mkdir(getStoreDir(), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(analysis, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+function toSummary(analysis: SavedAnalysis): SavedAnalysisSummary {
+  return {
+    id: analysis.id,
+    createdAt: analysis.createdAt,
+    threadId: analysis.threadId,
+    revision: analysis.revision,
+    idea: analysis.idea,
+    globalScore: analysis.globalScore,
+    startupStage: analysis.inputs?.startupStage ?? null,
+    hasResult: analysis.result !== null,
+  };
+}
+
+async function readAllAnalyses(): Promise<SavedAnalysis[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(getStoreDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const analyses = await Promise.all(
+    fileNames
+      .filter((fileName) => fileName.endsWith('.json'))
+      .map((fileName) => readAnalysisFile(path.join(getStoreDir(), fileName)))
+  );
+
+  return analyses.filter((analysis): analysis is SavedAnalysis => analysis !== null);
+}
+
+export async function listAnalyses(): Promise<SavedAnalysisSummary[]> {
+  const analyses = await readAllAnalyses();
+  return analyses.map(toSummary).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Every revision in a thread, oldest first; empty when the thread doesn't exist
+export async function getThread(threadId: string): Promise<SavedAnalysis[]> {
+  const analyses = await readAllAnalyses();
+  return analyses
+    .filter((analysis) => analysis.threadId === threadId)
+    .sort((a, b) => a.revision - b.revision);
+}
+
+// Full analyses for export, oldest first; all of them when no ids are given
+export async function getAnalyses(ids?: string[]): Promise<SavedAnalysis[]> {
+  const analyses = await readAllAnalyses();
+  return analyses
+    .filter((analysis) => !ids || ids.includes(analysis.id))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function getAnalysis(id: string): Promise<SavedAnalysis | null> {
+  const filePath = analysisPath(id);
+  return filePath ? readAnalysisFile(filePath) : null;
+}
+
+/**
+ * Saves a result as a new thread, or as the next revision of `threadId`.
+ * Throws UnknownThreadError when that thread has no analyses.
+ */
+export async function saveAnalysis(result: AnalysisResult, threadId?: string): Promise<SavedAnalysisSummary> {
+  const id = crypto.randomUUID();
+  let revision = 1;
+  if (threadId) {
+    const thread = await getThread(threadId);
+    if (thread.length === 0) {
+      throw new UnknownThreadError(threadId);
+    }
+    revision = thread[thread.length - 1].revision + 1;
+  }
+
+  const analysis: SavedAnalysis = {
+    id,
+    createdAt: new Date().toISOString(),
+    threadId: threadId || id,
+    revision,
+    idea: result.idea,
+    globalScore: result.globalScore,
+    inputs: result.inputs ?? null,
+    result,
+  };
+
+  await writeAnalysisFile(analysis);
+  return toSummary(analysis);
+}
+
+// Identifies the same analysis saved under different ids, e.g. after an export from another machine
+function fingerprint(analysis: SavedAnalysis): string {
+  const content = analysis.result ?? { idea: analysis.idea, globalScore: analysis.globalScore, createdAt: analysis.createdAt };
+  return crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * Restores previously exported analyses, keeping their ids, dates and threads.
+ * An entry is skipped as a duplicate when its id is taken or an analysis with
+ * identical content already exists.
+ */
+export async function importAnalyses(entries: SavedAnalysis[]): Promise<{ imported: number; duplicates: number }> {
+  const existing = await readAllAnalyses();
+  const ids = new Set(existing.map((analysis) => analysis.id));
+  const fingerprints = new Set(existing.map(fingerprint));
+  let imported = 0;
+  let duplicates = 0;
+
+  for (const entry of entries) {
+    // A thread that can't be stored or a revision that isn't a positive integer starts a thread of its own
+    const keepsThread = typeof entry.threadId === 'string' && isValidAnalysisId(entry.threadId)
+      && Number.isInteger(entry.revision) && entry.revision > 0;
+    const analysis: SavedAnalysis = {
+      ...entry,
+      threadId: keepsThread ? entry.threadId : entry.id,
+      revision: keepsThread ? entry.revision : 1,
+    };
+    const key = fingerprint(analysis);
+    if (ids.has(analysis.id) || fingerprints.has(key)) {
+      duplicates++;
+      continue;
+    }
+
+    await writeAnalysisFile(analysis);
+    ids.add(analysis.id);
+    fingerprints.add(key);
+    imported++;
+  }
+
+  return { imported, duplicates };
+}
+
+// Entries from the page's old localStorage list only have a summary, so they are stored without a result
+export function importLegacyAnalyses(entries: LegacySavedAnalysis[]): Promise<{ imported: number; duplicates: number }> {
+  return importAnalyses(entries.map((entry) => ({
+    id: entry.id,
+    createdAt: entry.date,
+    threadId: entry.id,
+    revision: 1,
+    idea: entry.idea,
+    globalScore: entry.globalScore,
+    inputs: null,
+    result: null,
+  })));
+}
+
+export async function deleteAnalysis(id: string): Promise<boolean> {
+  const filePath = analysisPath(id);
+  if (!filePath) return false;
+
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, parseBatchCsv } from '@/lib/batchAnalysis';
+import { runBatch } from '../batchRunner';
+
+/**
+ * Analyzes every idea in an uploaded CSV (`file` form field) and streams
+ * Server-Sent Events: `rows` with the parsed rows, a `row` event each time a
+ * row starts, finishes or fails, then `done` with the totals.
+ */
+export async function POST(req: NextRequest) {
+  const formData = await req.formData().catch(() => null);
+  const file = formData?.get('file');
+  if (!file || typeof file === 'string') {
+    return NextResponse.json({ error: 'Upload a CSV file in the "file" field.' }, { status: 400 });
+  }
+
+  const { rows, errors } = parseBatchCsv(await file.text());
+  if (errors.length > 0) {
+    return NextResponse.json({ error: errors[0], details: errors }, { status: 400 });
+  }
+
+  const requested = Number(formData?.get('concurrency') ?? DEFAULT_BATCH_CONCURRENCY);
+  const concurrency = Number.isInteger(requested)
+    ? Math.min(Math.max(requested, 1), MAX_BATCH_CONCURRENCY)
+    : DEFAULT_BATCH_CONCURRENCY;
+
+  const encoder = new TextEncoder();
+  // Rows still queued are skipped once the client goes away
+  const abort = new AbortController();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (abort.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        send('rows', { rows, concurrency });
+        send('done', await runBatch(rows, concurrency, (update) => send('row', update), abort.signal));
+      } catch (error) {
+        console.error('Batch error:', error);
+        send('error', { error: 'The batch stopped unexpectedly.' });
+      } finally {
+        if (!abort.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
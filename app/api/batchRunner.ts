@@ -0,0 +1,43 @@
+import { BatchRow, BatchRowUpdate, BatchSummary } from '@/lib/batchAnalysis';
+import { buildAnalysisInput, getAnalysisErrorResponse, runAnalysis } from './analysisCore';
+
+/**
+ * Analyzes every row, at most `concurrency` at a time, and reports each row
+ * as it starts and finishes. A failed row doesn't stop the batch; aborting
+ * `signal` stops it from starting further rows.
+ */
+export async function runBatch(
+  rows: BatchRow[],
+  concurrency: number,
+  onUpdate: (update: BatchRowUpdate) => void,
+  signal?: AbortSignal
+): Promise<BatchSummary> {
+  const summary: BatchSummary = { succeeded: 0, failed: 0 };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < rows.length && !signal?.aborted) {
+      const index = next++;
+      const row = rows[index];
+      onUpdate({ index, status: 'running' });
+
+      try {
+        const input = await buildAnalysisInput({
+          query: row.idea,
+          startupStage: row.startupStage || undefined,
+          targetMarket: row.targetMarket || undefined,
+        }, null);
+        const result = await runAnalysis(input);
+        summary.succeeded++;
+        onUpdate({ index, status: 'done', result });
+      } catch (error) {
+        console.error(`Batch row ${index + 1} failed:`, error);
+        summary.failed++;
+        onUpdate({ index, status: 'failed', error: getAnalysisErrorResponse(error).body.error });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, worker));
+  return summary;
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AnalysisResult, isAnalysisResult } from '@/lib/analysis';
+import { getAnalysis } from '../analysisStore';
+import { generateMemoDocx, generateSummaryPptx } from '../memoExport';
+import { generateReportPdf } from '../reportPdf';
+
+type ExportFormat = 'docx' | 'pptx' | 'pdf';
+
+const exporters: Record<ExportFormat, {
+  generate: (result: AnalysisResult, createdAt?: Date) => Promise<Buffer>;
+  contentType: string;
+  suffix: string;
+}> = {
+  docx: {
+    generate: generateMemoDocx,
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    suffix: 'memo',
+  },
+  pptx: {
+    generate: generateSummaryPptx,
+    contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    suffix: 'summary',
+  },
+  pdf: {
+    generate: generateReportPdf,
+    contentType: 'application/pdf',
+    suffix: 'report',
+  },
+};
+
+function exportFileName(idea: string, format: ExportFormat): string {
+  const slug = idea.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+  return `${slug || 'analysis'}-${exporters[format].suffix}.${format}`;
+}
+
+/**
+ * Exports a saved analysis (`analysisId`) or the one currently on the page
+ * (`result`) as a Word memo, a PowerPoint summary deck or a PDF report.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const format = body?.format as ExportFormat;
+  if (!(format in exporters)) {
+    return NextResponse.json({ error: 'format must be "docx", "pptx" or "pdf".' }, { status: 400 });
+  }
+
+  try {
+    let result: unknown = body.result ?? null;
+    let createdAt: Date | undefined;
+    if (typeof body.analysisId === 'string') {
+      const saved = await getAnalysis(body.analysisId);
+      if (!saved?.result) {
+        return NextResponse.json({ error: 'Analysis not found.' }, { status: 404 });
+      }
+      result = saved.result;
+      createdAt = new Date(saved.createdAt);
+    }
+    if (!isAnalysisResult(result)) {
+      return NextResponse.json({ error: 'Provide an analysisId or a complete analysis result.' }, { status: 400 });
+    }
+
+    const file = await exporters[format].generate(result, createdAt);
+    return new NextResponse(file, {
+      headers: {
+        'Content-Type': exporters[format].contentType,
+        'Content-Disposition': `attachment; filename="${exportFileName(result.idea, format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json({ error: 'Failed to generate the export.' }, { status: 500 });
+  }
+}
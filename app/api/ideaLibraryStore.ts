@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { LibraryIdea, LibraryIdeaFields } from '@/lib/ideaLibrary';
+import { startupIdeas } from '../data/startupIdeas';
+import { isValidAnalysisId } from './analysisStore';
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), 'data', 'library');
+const BUILT_IN_PREFIX = 'builtin-';
+
+// Team ideas are stored whole; for built-in ideas only the latest score is stored
+type StoredLibraryIdea = Partial<LibraryIdea> & Pick<LibraryIdea, 'id'>;
+
+export class BuiltInIdeaError extends Error {
+  constructor(id: string) {
+    super(`Library idea "${id}" is built in and can't be changed`);
+    this.name = 'BuiltInIdeaError';
+  }
+}
+
+const builtInIdeas: LibraryIdea[] = startupIdeas.map((idea) => ({
+  id: `${BUILT_IN_PREFIX}${idea.id}`,
+  title: idea.title,
+  description: idea.description,
+  keywords: idea.keywords,
+  builtIn: true,
+  createdAt: null,
+  updatedAt: null,
+  latestScore: null,
+}));
+
+function getStoreDir(): string {
+  return process.env.LIBRARY_STORE_DIR || DEFAULT_STORE_DIR;
+}
+
+function ideaPath(id: string): string | null {
+  return isValidAnalysisId(id) ? path.join(getStoreDir(), `${id}.json`) : null;
+}
+
+async function readIdeaFile(filePath: string): Promise<StoredLibraryIdea | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    // A corrupt file is left for inspection rather than failing every listing
+    if (error instanceof SyntaxError) {
+      console.error(`Skipping unreadable library idea file ${filePath}:`, error);
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeIdeaFile(idea: StoredLibraryIdea): Promise<void> {
+  const filePath = ideaPath(idea.id);
+  if (!filePath) {
+    throw new Error(`Invalid library idea id "${idea.id}"`);
+  }
+
+  await fs.mkdir(getStoreDir(), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(idea, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+async function readStoredIdeas(): Promise<Map<string, StoredLibraryIdea>> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(getStoreDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new Map();
+    throw error;
+  }
+
+  const ideas = await Promise.all(
+    fileNames
+      .filter((fileName) => fileName.endsWith('.json'))
+      .map((fileName) => readIdeaFile(path.join(getStoreDir(), fileName)))
+  );
+
+  return new Map(
+    ideas
+      .filter((idea): idea is StoredLibraryIdea => idea !== null)
+      .map((idea) => [idea.id, idea])
+  );
+}
+
+function normalizeFields({ title, description, keywords }: LibraryIdeaFields): LibraryIdeaFields {
+  const trimmed = keywords.map((keyword) => keyword.trim()).filter(Boolean);
+  return {
+    title: title.trim(),
+    description: description.trim(),
+    keywords: trimmed.filter((keyword, index) =>
+      trimmed.findIndex((other) => other.toLowerCase() === keyword.toLowerCase()) === index),
+  };
+}
+
+// Built-in ideas in catalogue order, then the team's ideas, newest first
+export async function listLibraryIdeas(): Promise<LibraryIdea[]> {
+  const stored = await readStoredIdeas();
+  const builtIn = builtInIdeas.map((idea) => ({ ...idea, latestScore: stored.get(idea.id)?.latestScore ?? null }));
+  const custom = Array.from(stored.values())
+    .filter((idea) => !idea.id.startsWith(BUILT_IN_PREFIX))
+    .map((idea) => ({ ...idea, builtIn: false }) as LibraryIdea)
+    .sort((a, b) => (b.createdAt ?? '').localeCompare(a.createdAt ?? ''));
+
+  return [...builtIn, ...custom];
+}
+
+export async function getLibraryIdea(id: string): Promise<LibraryIdea | null> {
+  const builtIn = builtInIdeas.find((idea) => idea.id === id);
+  const filePath = ideaPath(id);
+  const stored = filePath ? await readIdeaFile(filePath) : null;
+  if (builtIn) {
+    return { ...builtIn, latestScore: stored?.latestScore ?? null };
+  }
+  return stored ? { ...stored, builtIn: false } as LibraryIdea : null;
+}
+
+export async function createLibraryIdea(fields: LibraryIdeaFields): Promise<LibraryIdea> {
+  const now = new Date().toISOString();
+  const idea: LibraryIdea = {
+    id: crypto.randomUUID(),
+    ...normalizeFields(fields),
+    builtIn: false,
+    createdAt: now,
+    updatedAt: now,
+    latestScore: null,
+  };
+
+  await writeIdeaFile(idea);
+  return idea;
+}
+
+/**
+ * Replaces the title, description and keywords of one of the team's ideas.
+ * Returns null when it doesn't exist; throws BuiltInIdeaError for built-in ideas.
+ */
+export async function updateLibraryIdea(id: string, fields: LibraryIdeaFields): Promise<LibraryIdea | null> {
+  const existing = await getLibraryIdea(id);
+  if (!existing) return null;
+  if (existing.builtIn) {
+    throw new BuiltInIdeaError(id);
+  }
+
+  const idea: LibraryIdea = { ...existing, ...normalizeFields(fields), updatedAt: new Date().toISOString() };
+  await writeIdeaFile(idea);
+  return idea;
+}
+
+export async function deleteLibraryIdea(id: string): Promise<boolean> {
+  const existing = await getLibraryIdea(id);
+  if (!existing) return false;
+  if (existing.builtIn) {
+    throw new BuiltInIdeaError(id);
+  }
+
+  try {
+    await fs.unlink(ideaPath(id)!);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+// Called when an analysis started from the library finishes; unknown ids are ignored
+export async function recordLibraryIdeaScore(id: string, globalScore: number): Promise<void> {
+  const existing = await getLibraryIdea(id);
+  if (!existing) return;
+
+  const latestScore = { globalScore, analyzedAt: new Date().toISOString() };
+  await writeIdeaFile(existing.builtIn ? { id, latestScore } : { ...existing, latestScore });
+}
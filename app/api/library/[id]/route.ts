@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseLibraryIdeaFields } from '@/lib/ideaLibrary';
+import { BuiltInIdeaError, deleteLibraryIdea, updateLibraryIdea } from '../../ideaLibraryStore';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const fields = parseLibraryIdeaFields(await req.json().catch(() => null));
+  if (!fields) {
+    return NextResponse.json({ error: 'An idea needs a title, a description and a list of keywords.' }, { status: 400 });
+  }
+
+  try {
+    const idea = await updateLibraryIdea(params.id, fields);
+    if (!idea) {
+      return NextResponse.json({ error: 'Library idea not found.' }, { status: 404 });
+    }
+    return NextResponse.json(idea);
+  } catch (error) {
+    if (error instanceof BuiltInIdeaError) {
+      return NextResponse.json({ error: 'Built-in ideas can\'t be edited.' }, { status: 403 });
+    }
+    console.error('Failed to update library idea:', error);
+    return NextResponse.json({ error: 'Failed to update the idea.' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    if (!await deleteLibraryIdea(params.id)) {
+      return NextResponse.json({ error: 'Library idea not found.' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof BuiltInIdeaError) {
+      return NextResponse.json({ error: 'Built-in ideas can\'t be deleted.' }, { status: 403 });
+    }
+    console.error('Failed to delete library idea:', error);
+    return NextResponse.json({ error: 'Failed to delete the idea.' }, { status: 500 });
+  }
+}
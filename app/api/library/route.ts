@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseLibraryIdeaFields } from '@/lib/ideaLibrary';
+import { createLibraryIdea, listLibraryIdeas } from '../ideaLibraryStore';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ ideas: await listLibraryIdeas() });
+  } catch (error) {
+    console.error('Failed to list library ideas:', error);
+    return NextResponse.json({ error: 'Failed to load the idea library.' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const fields = parseLibraryIdeaFields(await req.json().catch(() => null));
+  if (!fields) {
+    return NextResponse.json({ error: 'An idea needs a title, a description and a list of keywords.' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await createLibraryIdea(fields), { status: 201 });
+  } catch (error) {
+    console.error('Failed to add library idea:', error);
+    return NextResponse.json({ error: 'Failed to add the idea.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,141 @@
+import OpenAI from 'openai';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// What a completion is for; fixture replay falls back to a per-purpose recording
+export type LlmPurpose = 'pitch-deck-summary' | 'analysis' | 'industry-averages';
+
+export interface LlmProvider {
+  name: string;
+  complete(messages: ChatMessage[], purpose: LlmPurpose): Promise<string | null>;
+}
+
+interface Fixture {
+  purpose: LlmPurpose;
+  messages: ChatMessage[];
+  response: string | null;
+}
+
+const DEFAULT_MODEL = 'gpt-3.5-turbo';
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), 'fixtures', 'llm');
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(private model: string, options: { apiKey?: string; baseURL?: string } = {}) {
+    this.name = options.baseURL ? `openai-compatible:${model}` : `openai:${model}`;
+    this.client = new OpenAI({
+      // Local OpenAI-compatible servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || (options.baseURL ? 'not-needed' : undefined),
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(messages: ChatMessage[]): Promise<string | null> {
+    const completion = await this.client.chat.completions.create({
+      messages,
+      model: this.model,
+    });
+    return completion.choices[0].message.content;
+  }
+}
+
+/**
+ * Replays recorded responses so the app runs with no network or API key. A
+ * recording for the exact conversation wins; otherwise the `<purpose>.json`
+ * fixture is used, which keeps results deterministic for any input.
+ */
+export class FixtureProvider implements LlmProvider {
+  readonly name = 'fixture';
+
+  constructor(private fixturesDir: string) {}
+
+  async complete(messages: ChatMessage[], purpose: LlmPurpose): Promise<string | null> {
+    const candidates = [fixtureFileName(messages, purpose), `${purpose}.json`];
+
+    for (const fileName of candidates) {
+      try {
+        const fixture: Fixture = JSON.parse(await fs.readFile(path.join(this.fixturesDir, fileName), 'utf-8'));
+        return fixture.response;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+
+    throw new Error(`No LLM fixture for "${purpose}" in ${this.fixturesDir} (looked for ${candidates.join(', ')})`);
+  }
+}
+
+// Wraps another provider and writes every exchange out as a fixture
+export class RecordingProvider implements LlmProvider {
+  readonly name: string;
+
+  constructor(private inner: LlmProvider, private fixturesDir: string) {
+    this.name = `recording:${inner.name}`;
+  }
+
+  async complete(messages: ChatMessage[], purpose: LlmPurpose): Promise<string | null> {
+    const response = await this.inner.complete(messages, purpose);
+    const fixture: Fixture = { purpose, messages, response };
+
+    await fs.mkdir(this.fixturesDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.fixturesDir, fixtureFileName(messages, purpose)),
+      JSON.stringify(fixture, null, 2)
+    );
+    return response;
+  }
+}
+
+function fixtureFileName(messages: ChatMessage[], purpose: LlmPurpose): string {
+  const hash = crypto.createHash('sha256').update(JSON.stringify(messages)).digest('hex').slice(0, 16);
+  return `${purpose}-${hash}.json`;
+}
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Returns the provider selected by LLM_PROVIDER ("openai", "openai-compatible"
+ * or "fixture"). Created on first use so that importing a route never requires
+ * an API key.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (provider) return provider;
+
+  const model = process.env.LLM_MODEL || DEFAULT_MODEL;
+  const fixturesDir = process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+  switch (process.env.LLM_PROVIDER || 'openai') {
+    case 'openai':
+      provider = new OpenAIProvider(model, { apiKey: process.env.OPENAI_API_KEY });
+      break;
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL must be set when LLM_PROVIDER is "openai-compatible"');
+      }
+      provider = new OpenAIProvider(model, {
+        apiKey: process.env.LLM_API_KEY,
+        baseURL: process.env.LLM_BASE_URL,
+      });
+      break;
+    case 'fixture':
+      provider = new FixtureProvider(fixturesDir);
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}"`);
+  }
+
+  if (process.env.LLM_RECORD_FIXTURES === 'true' && !(provider instanceof FixtureProvider)) {
+    provider = new RecordingProvider(provider, fixturesDir);
+  }
+
+  console.log(`Using LLM provider ${provider.name}`);
+  return provider;
+}
@@ -0,0 +1,199 @@
+import { ChatMessage, LlmProvider, LlmPurpose } from './llmProvider';
+
+export type Schema =
+  | { type: 'string'; required?: boolean }
+  | { type: 'number'; min: number; max: number; required?: boolean }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; required?: boolean };
+
+export interface ValidationResult<T> {
+  value: T;
+  errors: string[];
+  repairs: string[];
+}
+
+export interface ValidatedResponse<T> {
+  data: T;
+  repairs: string[];
+  attempts: number;
+}
+
+const MAX_ATTEMPTS = 3;
+
+export class LlmResponseError extends Error {
+  constructor(message: string, public readonly details: string[]) {
+    super(message);
+    this.name = 'LlmResponseError';
+  }
+}
+
+/**
+ * Asks the model for JSON matching `schema`. Problems that can be fixed locally
+ * (code fences, missing optional fields, out-of-range scores, unknown fields)
+ * are repaired and recorded; anything else is sent back to the model, up to
+ * MAX_ATTEMPTS times.
+ */
+export async function requestValidatedJson<T>(
+  purpose: LlmPurpose,
+  prompt: string,
+  schema: Schema,
+  provider: LlmProvider
+): Promise<ValidatedResponse<T>> {
+  const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+  let errors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const raw = await provider.complete(messages, purpose);
+    console.log(`Raw ${purpose} response (attempt ${attempt}):`, raw);
+
+    const parsed = parseLlmJson(raw);
+    if (parsed.error) {
+      errors = [parsed.error];
+    } else {
+      const result = validateAndRepair<T>(parsed.value, schema);
+      if (result.errors.length === 0) {
+        if (result.repairs.length > 0) {
+          console.log(`Repaired ${purpose} fields:`, result.repairs);
+        }
+        return { data: result.value, repairs: result.repairs, attempts: attempt };
+      }
+      errors = result.errors;
+    }
+
+    console.warn(`Invalid ${purpose} response (attempt ${attempt}):`, errors);
+    messages.push(
+      { role: 'assistant', content: raw || '' },
+      {
+        role: 'user',
+        content: `Your response could not be used:\n${errors.map(error => `- ${error}`).join('\n')}\n\nRespond again with only the corrected JSON object, no code fences or commentary.`,
+      }
+    );
+  }
+
+  throw new LlmResponseError(`The ${purpose} response was invalid after ${MAX_ATTEMPTS} attempts`, errors);
+}
+
+export function parseLlmJson(raw: string | null): { value?: unknown; error?: string } {
+  if (!raw || !raw.trim()) {
+    return { error: 'The response was empty' };
+  }
+
+  let text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { error: 'The response did not contain a JSON object' };
+  }
+  text = text.slice(start, end + 1);
+
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: `The response was not valid JSON: ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+export function validateAndRepair<T>(input: unknown, schema: Schema, path = ''): ValidationResult<T> {
+  const errors: string[] = [];
+  const repairs: string[] = [];
+  const value = repairValue(input, schema, path || '(root)', errors, repairs);
+  return { value: value as T, errors, repairs };
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function repairValue(input: unknown, schema: Schema, path: string, errors: string[], repairs: string[]): unknown {
+  switch (schema.type) {
+    case 'string': {
+      if (typeof input === 'string' && input !== '') return input;
+      if (typeof input === 'number' || typeof input === 'boolean') {
+        repairs.push(`${path}: converted ${typeof input} to string`);
+        return String(input);
+      }
+      if (Array.isArray(input) && input.every(item => typeof item === 'string')) {
+        repairs.push(`${path}: joined list into a string`);
+        return input.join(', ');
+      }
+      if (schema.required) {
+        errors.push(`${path} must be a non-empty string`);
+      } else {
+        repairs.push(`${path}: filled missing value`);
+      }
+      return '';
+    }
+
+    case 'number': {
+      let number = input;
+      if (typeof input === 'string' && input.trim() !== '' && !isNaN(parseFloat(input))) {
+        number = parseFloat(input);
+        repairs.push(`${path}: parsed number from "${input}"`);
+      }
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        if (schema.required) {
+          errors.push(`${path} must be a number between ${schema.min} and ${schema.max}`);
+        } else {
+          repairs.push(`${path}: filled missing value`);
+        }
+        return schema.min;
+      }
+      const clamped = Math.min(Math.max(number, schema.min), schema.max);
+      if (clamped !== number) {
+        repairs.push(`${path}: clamped ${number} to ${clamped}`);
+      }
+      return clamped;
+    }
+
+    case 'array': {
+      let items: unknown[];
+      if (Array.isArray(input)) {
+        items = input;
+      } else if (isMissing(input)) {
+        items = [];
+        if (!schema.minItems) repairs.push(`${path}: filled missing list`);
+      } else {
+        items = [input];
+        repairs.push(`${path}: wrapped single value in a list`);
+      }
+
+      const repaired: unknown[] = [];
+      items.forEach((item, index) => {
+        const itemErrors: string[] = [];
+        const value = repairValue(item, schema.items, `${path}[${index}]`, itemErrors, repairs);
+        if (itemErrors.length > 0) {
+          repairs.push(`${path}[${index}]: dropped invalid item`);
+        } else {
+          repaired.push(value);
+        }
+      });
+
+      if (schema.minItems && repaired.length < schema.minItems) {
+        errors.push(`${path} must contain at least ${schema.minItems} valid item(s)`);
+      }
+      return repaired;
+    }
+
+    case 'object': {
+      let source: Record<string, unknown> = {};
+      if (input && typeof input === 'object' && !Array.isArray(input)) {
+        source = input as Record<string, unknown>;
+      } else if (schema.required) {
+        errors.push(`${path} must be an object`);
+      } else {
+        repairs.push(`${path}: filled missing object`);
+      }
+
+      const propertyPath = (key: string) => path === '(root)' ? key : `${path}.${key}`;
+      // Only the schema's keys are kept, so a key the model made up can't reach the scores
+      const repaired: Record<string, unknown> = {};
+      Object.keys(source)
+        .filter(key => !Object.prototype.hasOwnProperty.call(schema.properties, key))
+        .forEach(key => repairs.push(`${propertyPath(key)}: dropped unknown field`));
+      Object.entries(schema.properties).forEach(([key, propertySchema]) => {
+        repaired[key] = repairValue(source[key], propertySchema, propertyPath(key), errors, repairs);
+      });
+      return repaired;
+    }
+  }
+}
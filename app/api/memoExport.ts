@@ -0,0 +1,280 @@
+import officegen from 'officegen';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { encodePng } from './pngEncoder';
+import {
+  AnalysisResult,
+  DueDiligencePoint,
+  getKeyMetricLabels,
+  INVESTMENT_MEMO_SCORE_LABELS,
+  INVESTMENT_MEMO_SECTION_LABELS,
+  InvestmentMemo,
+  InvestmentMemoScores,
+} from '@/lib/analysis';
+import { formatDeckCitation } from '@/lib/deckSections';
+
+const DOCX_HEADER_CELL = { b: true, shd: { fill: 'E5E7EB' } };
+const PPTX_HEADER_CELL = { bold: 1, fill_color: 'E5E7EB' };
+const DOCX_TABLE_STYLE = { tableColWidth: 4500, tableSize: 22, tableAlign: 'left', borders: true };
+const MAX_SLIDE_ITEMS = 3;
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 420;
+const GRID_COLOR = [229, 231, 235];
+
+type OfficeDocument = ReturnType<typeof officegen>;
+type Slide = ReturnType<OfficeDocument['makeNewSlide']>;
+
+interface ChartBar {
+  label: string;
+  value: number;
+}
+
+// officegen writes to a stream; collect it so the route can send the file in one response
+function renderDocument(doc: OfficeDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    output.on('end', () => resolve(Buffer.concat(chunks)));
+    output.on('error', reject);
+    doc.on('error', reject);
+
+    doc.generate(output);
+  });
+}
+
+function formatScore(score: number | undefined): string {
+  return typeof score === 'number' ? `${score.toFixed(1)}%` : 'N/A';
+}
+
+function headerRow(opts: Record<string, unknown>, ...labels: string[]) {
+  return labels.map((label) => ({ val: label, opts }));
+}
+
+function scoreRows(result: AnalysisResult): [string, string][] {
+  return [
+    ['Global Score', formatScore(result.globalScore)],
+    ['Tech Score', formatScore(result.techScore)],
+    ['GTM Score', formatScore(result.gtmScore)],
+    ['Confidence Score', formatScore(result.confidenceScore)],
+  ];
+}
+
+function memoSections(memo: InvestmentMemo): [keyof InvestmentMemo, string, string][] {
+  return (Object.entries(INVESTMENT_MEMO_SECTION_LABELS) as [keyof InvestmentMemo, string][])
+    .map(([key, label]): [keyof InvestmentMemo, string, string] => [key, label, (memo[key] as string | undefined) || ''])
+    .filter(([, , text]) => text.trim().length > 0);
+}
+
+function hexToRgb(hex: string): number[] {
+  return [0, 2, 4].map((offset) => parseInt(hex.slice(offset, offset + 2), 16));
+}
+
+/**
+ * Draws a 0-100 column chart as a PNG. officegen's native charts can't be used:
+ * 0.6.5 deletes each chart's data workbook before it is read into the file.
+ */
+function renderColumnChart(bars: ChartBar[], color: string): Buffer {
+  const pixels = new Uint8Array(CHART_WIDTH * CHART_HEIGHT * 3).fill(255);
+  const fillRect = (x0: number, y0: number, x1: number, y1: number, rgb: number[]) => {
+    for (let y = Math.max(0, Math.round(y0)); y < Math.min(CHART_HEIGHT, Math.round(y1)); y++) {
+      for (let x = Math.max(0, Math.round(x0)); x < Math.min(CHART_WIDTH, Math.round(x1)); x++) {
+        pixels.set(rgb, (y * CHART_WIDTH + x) * 3);
+      }
+    }
+  };
+
+  for (let step = 0; step <= 5; step++) {
+    const y = CHART_HEIGHT - 1 - step * ((CHART_HEIGHT - 1) / 5);
+    fillRect(0, y - 1, CHART_WIDTH, y + 1, GRID_COLOR);
+  }
+
+  const slotWidth = CHART_WIDTH / bars.length;
+  const rgb = hexToRgb(color);
+  bars.forEach(({ value }, index) => {
+    const height = (Math.min(Math.max(value, 0), 100) / 100) * CHART_HEIGHT;
+    const x = index * slotWidth + slotWidth * 0.2;
+    fillRect(x, CHART_HEIGHT - height, x + slotWidth * 0.6, CHART_HEIGHT, rgb);
+  });
+
+  return encodePng(CHART_WIDTH, CHART_HEIGHT, 3, pixels);
+}
+
+/**
+ * Builds a Word investment memo: scores, every memo section with its quality
+ * score, key metrics, risks, SWOT, due diligence tables and industry averages.
+ */
+export function generateMemoDocx(result: AnalysisResult): Promise<Buffer> {
+  const docx = officegen({ type: 'docx', title: `Investment Memo: ${result.idea}`, creator: 'Startup Idea Validator' });
+
+  const heading = (text: string, size = 16) => {
+    const p = docx.createP();
+    p.addText(text, { bold: true, font_size: size });
+  };
+  const paragraph = (text: string) => docx.createP().addText(text);
+  const bulletList = (items: string[] = []) => {
+    if (items.length === 0) {
+      paragraph('None identified.');
+    }
+    items.forEach((item) => paragraph(`• ${item}`));
+  };
+  const dueDiligenceTable = (points: DueDiligencePoint[] = []) => {
+    docx.createTable([
+      headerRow(DOCX_HEADER_CELL, 'Point', 'Score'),
+      ...points.map(({ point, score }) => [point, formatScore(score)]),
+    ], DOCX_TABLE_STYLE);
+  };
+
+  heading('Investment Memo', 24);
+  paragraph(result.idea);
+  paragraph(`Stage: ${result.stageRubric ? `${result.stageRubric.label} rubric` : result.startupStage}${result.targetMarket ? ` · Target market: ${result.targetMarket}` : ''}`);
+  if (result.scoringRubric) {
+    paragraph(`Scoring rubric: ${result.scoringRubric.name} v${result.scoringRubric.version}`);
+  }
+
+  heading('Scores');
+  docx.createTable([headerRow(DOCX_HEADER_CELL, 'Score', 'Value'), ...scoreRows(result)], DOCX_TABLE_STYLE);
+
+  memoSections(result.investmentMemo).forEach(([key, label, text]) => {
+    const score = result.investmentMemoScores[key as keyof InvestmentMemoScores];
+    heading(typeof score === 'number' ? `${label} (${formatScore(score)})` : label, 14);
+    const pages = result.memoCitations?.[key];
+    if (pages && pages.length > 0) {
+      paragraph(`Source: ${formatDeckCitation(pages, (result.pitchDeckStats?.slides ?? 0) > 0)}`);
+    }
+    paragraph(text);
+  });
+
+  heading('Key Metrics');
+  docx.createTable([
+    headerRow(DOCX_HEADER_CELL, 'Metric', 'Value'),
+    ...getKeyMetricLabels(result.investmentMemo.keyMetrics)
+      .map(([key, label]) => [label, result.investmentMemo.keyMetrics[key] || 'N/A']),
+  ], DOCX_TABLE_STYLE);
+
+  const risks = result.investmentMemo.keyRisksAndMitigation ?? [];
+  if (risks.length > 0) {
+    const score = result.investmentMemoScores.keyRisksAndMitigation;
+    heading(typeof score === 'number' ? `Key Risks and Mitigation (${formatScore(score)})` : 'Key Risks and Mitigation');
+    docx.createTable([
+      headerRow(DOCX_HEADER_CELL, 'Risk', 'Mitigation'),
+      ...risks.map(({ risk, mitigation }) => [risk, mitigation]),
+    ], DOCX_TABLE_STYLE);
+  }
+
+  docx.putPageBreak();
+  heading('SWOT Analysis');
+  heading('Strengths', 14);
+  bulletList(result.swot?.strengths);
+  heading('Weaknesses', 14);
+  bulletList(result.swot?.weaknesses);
+  heading('Opportunities', 14);
+  bulletList(result.swot?.opportunities);
+  heading('Threats', 14);
+  bulletList(result.swot?.threats);
+
+  heading('Due Diligence: Tech');
+  dueDiligenceTable(result.dueDiligenceTech);
+  heading('Due Diligence: Go-to-Market');
+  dueDiligenceTable(result.dueDiligenceGTM);
+
+  heading('Industry Averages');
+  docx.createTable([
+    headerRow(DOCX_HEADER_CELL, 'Metric', 'Average'),
+    ['Funding', result.industryAverages.averageFunding],
+    ['Time to Market', result.industryAverages.averageTimeToMarket],
+    ['CAC', result.industryAverages.averageCAC],
+    ['LTV', result.industryAverages.averageLTV],
+    ['Burn Rate', result.industryAverages.averageBurnRate],
+    ['Revenue Growth', result.industryAverages.averageRevenueGrowth],
+  ], DOCX_TABLE_STYLE);
+
+  return renderDocument(docx);
+}
+
+/**
+ * Builds a short summary deck: title, score charts, key metrics with SWOT
+ * highlights, and the due diligence points.
+ */
+export async function generateSummaryPptx(result: AnalysisResult): Promise<Buffer> {
+  // Chart images are read from disk while the deck is generated
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'memo-export-'));
+  try {
+    return await buildSummaryPptx(result, tempDir);
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+async function addChartSlide(
+  pptx: OfficeDocument,
+  title: string,
+  bars: ChartBar[],
+  color: string,
+  imagePath: string
+): Promise<void> {
+  await fs.writeFile(imagePath, renderColumnChart(bars, color));
+
+  const slide = pptx.makeNewSlide();
+  slide.addText(title, { x: 40, y: 20, font_size: 28, bold: true });
+  slide.addImage(imagePath, { x: 60, y: 90, cx: 600, cy: 280 });
+
+  const slotWidth = 600 / bars.length;
+  bars.forEach(({ label, value }, index) => {
+    slide.addText(`${label}\n${formatScore(value)}`, {
+      x: 60 + index * slotWidth,
+      y: 380,
+      cx: slotWidth,
+      cy: 60,
+      font_size: bars.length > 4 ? 11 : 14,
+      align: 'center',
+    });
+  });
+}
+
+async function buildSummaryPptx(result: AnalysisResult, tempDir: string): Promise<Buffer> {
+  const pptx = officegen('pptx');
+  pptx.setDocTitle(`Investment Summary: ${result.idea}`);
+
+  pptx.makeTitleSlide(result.idea, `Investment summary · ${result.stageRubric?.label ?? result.startupStage} stage`);
+
+  await addChartSlide(pptx, 'Scores', [
+    { label: 'Global', value: result.globalScore },
+    { label: 'Tech', value: result.techScore },
+    { label: 'GTM', value: result.gtmScore },
+    { label: 'Confidence', value: result.confidenceScore },
+  ], '4F46E5', path.join(tempDir, 'scores.png'));
+
+  const memoScoreBars = (Object.entries(INVESTMENT_MEMO_SCORE_LABELS) as [keyof InvestmentMemoScores, string][])
+    .map(([key, label]) => ({ label, value: result.investmentMemoScores[key] }))
+    .filter((bar): bar is ChartBar => typeof bar.value === 'number');
+  if (memoScoreBars.length > 0) {
+    await addChartSlide(pptx, 'Investment Memo Quality', memoScoreBars, '36A2EB', path.join(tempDir, 'memo-scores.png'));
+  }
+
+  let slide = pptx.makeNewSlide();
+  slide.addText('Key Metrics', { x: 40, y: 20, font_size: 28, bold: true });
+  slide.addTable([
+    headerRow(PPTX_HEADER_CELL, 'Metric', 'Value'),
+    ...getKeyMetricLabels(result.investmentMemo.keyMetrics)
+      .map(([key, label]) => [label, result.investmentMemo.keyMetrics[key] || 'N/A']),
+  ], { x: 40, y: 90, cx: 320, columnWidths: [1200000, 2800000] });
+  const swotLines = [
+    ...(result.swot?.strengths ?? []).slice(0, MAX_SLIDE_ITEMS).map((item) => `+ ${item}`),
+    ...(result.swot?.weaknesses ?? []).slice(0, MAX_SLIDE_ITEMS).map((item) => `− ${item}`),
+  ];
+  slide.addText(`SWOT highlights\n${swotLines.join('\n')}`, { x: 390, y: 90, cx: 300, cy: 300, font_size: 14 });
+
+  slide = pptx.makeNewSlide();
+  slide.addText('Due Diligence', { x: 40, y: 20, font_size: 28, bold: true });
+  slide.addTable([
+    headerRow(PPTX_HEADER_CELL, 'Area', 'Point', 'Score'),
+    ...(result.dueDiligenceTech ?? []).map(({ point, score }) => ['Tech', point, formatScore(score)]),
+    ...(result.dueDiligenceGTM ?? []).map(({ point, score }) => ['GTM', point, formatScore(score)]),
+  ], { x: 40, y: 90, cx: 640, columnWidths: [900000, 5400000, 1200000] });
+
+  return renderDocument(pptx);
+}
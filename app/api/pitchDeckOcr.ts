@@ -0,0 +1,186 @@
+import 'pdf.js-extract'; // installs the DOM stubs the bundled pdf.js needs under Node
+import { getDocument, OPS, PdfImageData } from 'pdf.js-extract/lib/pdfjs/pdf.js';
+import JSZip from 'jszip';
+import { createWorker } from 'tesseract.js';
+import { encodePng } from './pngEncoder';
+import { PitchDeckFormat, PitchDeckPage } from './pitchDeckParser';
+import { OcrPageResult } from '@/lib/analysis';
+
+// Pages with less extractable text than this are treated as images
+export const MIN_PAGE_TEXT_LENGTH = 40;
+const MAX_OCR_PAGES = 30;
+// Limits for the whole OCR pass and for pdf.js to decode one page's image
+const OCR_TIMEOUT_MS = Number(process.env.OCR_TIMEOUT_MS) || 60000;
+const IMAGE_LOAD_TIMEOUT_MS = 10000;
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'eng';
+// Directory or URL with <lang>.traineddata, for machines that cannot reach the default CDN
+const OCR_LANG_PATH = process.env.OCR_LANG_PATH;
+
+// pdf.js ImageKind values; the bundled build does not export the enum
+const ImageKind = {
+  GRAYSCALE_1BPP: 1,
+  RGB_24BPP: 2,
+  RGBA_32BPP: 3,
+};
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'tif', 'tiff'];
+
+export interface OcrOutput {
+  text: string;
+  confidence: number;
+}
+
+// Rejects if `promise` hasn't settled after `ms`; the underlying work isn't cancelled
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export function findLowTextPages(pages: PitchDeckPage[]): number[] {
+  return pages
+    .filter(page => page.text.replace(/\s+/g, '').length < MIN_PAGE_TEXT_LENGTH)
+    .map(page => page.number)
+    .slice(0, MAX_OCR_PAGES);
+}
+
+/**
+ * OCRs the given pages locally with tesseract.js. There is no canvas under Node,
+ * so each PDF page is rasterised from its largest embedded image and each slide
+ * from its largest picture, which is what flattened decks consist of. The pass
+ * rejects after OCR_TIMEOUT_MS, leaving the caller with the extracted text.
+ */
+export async function ocrPitchDeckPages(
+  buffer: Buffer,
+  format: PitchDeckFormat,
+  pageNumbers: number[]
+): Promise<Map<number, OcrOutput>> {
+  const results = new Map<number, OcrOutput>();
+  if (pageNumbers.length === 0) return results;
+
+  const deadline = Date.now() + OCR_TIMEOUT_MS;
+  const timeLeft = () => Math.max(deadline - Date.now(), 0);
+  const timeoutMessage = `OCR did not finish within ${OCR_TIMEOUT_MS}ms`;
+
+  const images = await withTimeout(
+    format === 'pdf' ? loadPdfPageImages(buffer, pageNumbers) : loadSlideImages(buffer, pageNumbers),
+    timeLeft(),
+    timeoutMessage
+  );
+  if (images.size === 0) return results;
+
+  // Languages are loaded after creation: a failed download inside createWorker never
+  // settles its promise, and without an errorHandler it is rethrown as uncaught
+  const workerPromise = createWorker([], undefined, {
+    ...(OCR_LANG_PATH ? { langPath: OCR_LANG_PATH } : {}),
+    errorHandler: (error: unknown) => console.error('Tesseract worker error:', error),
+  });
+  try {
+    const worker = await withTimeout(workerPromise, timeLeft(), timeoutMessage);
+    await withTimeout(worker.reinitialize(OCR_LANGUAGE), timeLeft(), timeoutMessage);
+    for (const [pageNumber, image] of Array.from(images.entries())) {
+      const { data } = await withTimeout(worker.recognize(image), timeLeft(), timeoutMessage);
+      results.set(pageNumber, { text: data.text.trim(), confidence: data.confidence });
+    }
+  } finally {
+    // Not awaited: after a timeout the worker may still be starting or busy
+    workerPromise
+      .then(worker => worker.terminate())
+      .catch(error => console.error('Failed to stop the Tesseract worker:', error));
+  }
+
+  return results;
+}
+
+async function loadPdfPageImages(buffer: Buffer, pageNumbers: number[]): Promise<Map<number, Buffer>> {
+  const images = new Map<number, Buffer>();
+  const doc = await getDocument({ data: new Uint8Array(buffer), verbosity: -1 }).promise;
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await doc.getPage(pageNumber);
+      const operatorList = await page.getOperatorList();
+
+      let objId: string | null = null;
+      let largestArea = 0;
+      for (let index = 0; index < operatorList.fnArray.length; index++) {
+        if (operatorList.fnArray[index] !== OPS.paintImageXObject) continue;
+        const [imageId, width, height] = operatorList.argsArray[index];
+        if (width * height > largestArea) {
+          objId = imageId;
+          largestArea = width * height;
+        }
+      }
+
+      if (objId) {
+        const objs = objId.startsWith('g_') ? page.commonObjs : page.objs;
+        try {
+          const image = await withTimeout(
+            new Promise<PdfImageData>(resolve => objs.get(objId, resolve)),
+            IMAGE_LOAD_TIMEOUT_MS,
+            `The image on page ${pageNumber} did not load within ${IMAGE_LOAD_TIMEOUT_MS}ms`
+          );
+          const png = imageDataToPng(image);
+          if (png) images.set(pageNumber, png);
+        } catch (error) {
+          console.warn('Skipping OCR for a page:', error);
+        }
+      }
+
+      page.cleanup();
+    }
+  } finally {
+    await doc.destroy();
+  }
+
+  return images;
+}
+
+async function loadSlideImages(buffer: Buffer, slideNumbers: number[]): Promise<Map<number, Buffer>> {
+  const images = new Map<number, Buffer>();
+  const zip = await JSZip.loadAsync(buffer);
+
+  for (const slideNumber of slideNumbers) {
+    const rels = await zip.file(`ppt/slides/_rels/slide${slideNumber}.xml.rels`)?.async('string');
+    if (!rels) continue;
+
+    const targets = Array.from(rels.matchAll(/Target="\.\.\/media\/([^"]+)"/g))
+      .map(match => `ppt/media/${match[1]}`)
+      .filter(path => IMAGE_EXTENSIONS.includes(path.split('.').pop()?.toLowerCase() || ''));
+
+    let largest: Buffer | null = null;
+    for (const target of targets) {
+      const data = await zip.file(target)?.async('nodebuffer');
+      if (data && (!largest || data.length > largest.length)) {
+        largest = data;
+      }
+    }
+
+    if (largest) images.set(slideNumber, largest);
+  }
+
+  return images;
+}
+
+function imageDataToPng(image: PdfImageData): Buffer | null {
+  const { width, height, kind, data } = image;
+
+  if (kind === ImageKind.RGBA_32BPP) return encodePng(width, height, 4, data);
+  if (kind === ImageKind.RGB_24BPP) return encodePng(width, height, 3, data);
+  if (kind === ImageKind.GRAYSCALE_1BPP) {
+    // 1bpp rows are byte-aligned; a set bit is white
+    const rowBytes = (width + 7) >> 3;
+    const pixels = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1;
+        pixels[y * width + x] = bit ? 255 : 0;
+      }
+    }
+    return encodePng(width, height, 1, pixels);
+  }
+
+  return null;
+}
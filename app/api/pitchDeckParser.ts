@@ -0,0 +1,165 @@
+import { PDFExtract, PDFExtractPage } from 'pdf.js-extract';
+import JSZip from 'jszip';
+import { findLowTextPages, ocrPitchDeckPages } from './pitchDeckOcr';
+import { OcrPageResult, PitchDeckStats } from '@/lib/analysis';
+
+export type PitchDeckFormat = 'pdf' | 'pptx';
+
+export interface PitchDeckPage {
+  number: number;
+  text: string;
+}
+
+export interface PitchDeckExtraction {
+  format: PitchDeckFormat;
+  pages: PitchDeckPage[];
+  text: string;
+  stats: PitchDeckStats;
+}
+
+// Items whose baselines are closer than this (in PDF units) are on the same line
+const LINE_TOLERANCE = 2;
+
+export function getPitchDeckFormat(filename: string | null | undefined): PitchDeckFormat | null {
+  const fileExtension = filename?.split('.').pop()?.toLowerCase();
+  if (fileExtension === 'pdf' || fileExtension === 'pptx') {
+    return fileExtension;
+  }
+  return null;
+}
+
+export async function extractPitchDeck(buffer: Buffer, filename: string): Promise<PitchDeckExtraction> {
+  const format = getPitchDeckFormat(filename);
+
+  let pages: PitchDeckPage[];
+  if (format === 'pdf') {
+    pages = await extractPagesFromPDF(buffer);
+  } else if (format === 'pptx') {
+    pages = await extractSlidesFromPPTX(buffer);
+  } else {
+    throw new Error('Invalid file type. Please upload a PDF or PowerPoint file.');
+  }
+
+  const ocrPages = await applyOcrFallback(buffer, format, pages);
+  return buildExtraction(format, pages, ocrPages);
+}
+
+function buildExtraction(format: PitchDeckFormat, pages: PitchDeckPage[], ocrPages: OcrPageResult[]): PitchDeckExtraction {
+  const text = formatPages(format, pages);
+  const characters = pages.reduce((sum, page) => sum + page.text.length, 0);
+
+  return {
+    format,
+    pages,
+    text,
+    stats: {
+      pages: format === 'pdf' ? pages.length : 0,
+      slides: format === 'pptx' ? pages.length : 0,
+      characters,
+      ocrPages,
+    },
+  };
+}
+
+// Merges OCR text into pages that had little or no extractable text. OCR is best
+// effort: if it fails the deck is still analysed with whatever text it had.
+async function applyOcrFallback(buffer: Buffer, format: PitchDeckFormat, pages: PitchDeckPage[]): Promise<OcrPageResult[]> {
+  const lowTextPages = findLowTextPages(pages);
+  if (lowTextPages.length === 0) return [];
+
+  try {
+    const ocrResults = await ocrPitchDeckPages(buffer, format, lowTextPages);
+    const ocrPages: OcrPageResult[] = [];
+
+    pages.forEach((page) => {
+      const ocr = ocrResults.get(page.number);
+      if (!ocr || !ocr.text) return;
+
+      page.text = [page.text, ocr.text].filter(text => text.length > 0).join('\n');
+      ocrPages.push({
+        number: page.number,
+        confidence: Math.round(ocr.confidence),
+        characters: ocr.text.length,
+      });
+    });
+
+    console.log(`OCR applied to ${ocrPages.length} of ${lowTextPages.length} low-text pages`);
+    return ocrPages;
+  } catch (error) {
+    console.error('OCR fallback failed:', error);
+    return [];
+  }
+}
+
+// Keeps page/slide boundaries visible to the model so it can refer back to them
+function formatPages(format: PitchDeckFormat, pages: PitchDeckPage[]): string {
+  const label = format === 'pdf' ? 'Page' : 'Slide';
+  return pages
+    .filter(page => page.text.length > 0)
+    .map(page => `--- ${label} ${page.number} ---\n${page.text}`)
+    .join('\n\n');
+}
+
+async function extractPagesFromPDF(buffer: Buffer): Promise<PitchDeckPage[]> {
+  const pdfExtract = new PDFExtract();
+  const pdfData = await pdfExtract.extractBuffer(buffer, { normalizeWhitespace: true });
+
+  return pdfData.pages.map(page => ({
+    number: page.pageInfo.num,
+    text: joinPageLines(page),
+  }));
+}
+
+function joinPageLines(page: PDFExtractPage): string {
+  const lines: string[] = [];
+  let currentLine = '';
+  let lastY: number | null = null;
+
+  page.content.forEach((item) => {
+    if (lastY !== null && Math.abs(item.y - lastY) > LINE_TOLERANCE) {
+      lines.push(currentLine.trim());
+      currentLine = '';
+    }
+    currentLine += (currentLine && !currentLine.endsWith(' ') ? ' ' : '') + item.str;
+    lastY = item.y;
+  });
+  lines.push(currentLine.trim());
+
+  return lines.filter(line => line.length > 0).join('\n');
+}
+
+async function extractSlidesFromPPTX(buffer: Buffer): Promise<PitchDeckPage[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const slideFiles = Object.keys(zip.files)
+    .map(path => ({ path, match: path.match(/^ppt\/slides\/slide(\d+)\.xml$/) }))
+    .filter((entry): entry is { path: string; match: RegExpMatchArray } => entry.match !== null)
+    .map(entry => ({ path: entry.path, number: parseInt(entry.match[1], 10) }))
+    .sort((a, b) => a.number - b.number);
+
+  return Promise.all(slideFiles.map(async ({ path, number }) => {
+    const xml = await zip.file(path)!.async('string');
+    return { number, text: extractSlideText(xml) };
+  }));
+}
+
+function extractSlideText(xml: string): string {
+  return xml
+    .split('</a:p>')
+    .map(paragraph => {
+      const runs = paragraph.match(/<a:t(?:\s[^>]*)?>[^<]*<\/a:t>/g) || [];
+      return runs.map(run => decodeXmlEntities(run.replace(/<[^>]+>/g, ''))).join('');
+    })
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,380 @@
+import PDFDocument from 'pdfkit';
+import {
+  AnalysisResult,
+  DueDiligencePoint,
+  getKeyMetricLabels,
+  INVESTMENT_MEMO_SCORE_LABELS,
+  INVESTMENT_MEMO_SECTION_LABELS,
+  InvestmentMemo,
+  InvestmentMemoScores,
+  KEY_METRIC_LABELS,
+  KeyMetrics,
+  SwotAnalysis,
+} from '@/lib/analysis';
+import { formatDeckCitation } from '@/lib/deckSections';
+import { checkMarketSizes, getMarketSizeScales, MARKET_SIZE_LEVELS, parseMarketSizes } from '@/lib/marketSize';
+
+const MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6B7280';
+const BORDER_COLOR = '#D1D5DB';
+const HEADER_FILL = '#F3F4F6';
+const SCORE_COLORS = { low: '#EF4444', medium: '#EAB308', high: '#22C55E' };
+const MARKET_SIZE_COLORS = ['#93C5FD', '#3B82F6', '#1E40AF'];
+
+type Doc = PDFKit.PDFDocument;
+
+// Same thresholds as the page's getScoreColor
+function scoreColor(score: number): string {
+  if (score <= 33.33) return SCORE_COLORS.low;
+  if (score <= 66.66) return SCORE_COLORS.medium;
+  return SCORE_COLORS.high;
+}
+
+function formatScore(score: number | undefined): string {
+  return typeof score === 'number' ? `${score.toFixed(1)}%` : 'N/A';
+}
+
+function contentWidth(doc: Doc): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+function bottomLimit(doc: Doc): number {
+  return doc.page.height - MARGIN - FOOTER_HEIGHT;
+}
+
+function ensureSpace(doc: Doc, height: number): void {
+  if (doc.y + height > bottomLimit(doc)) {
+    doc.addPage();
+  }
+}
+
+function sectionTitle(doc: Doc, title: string): void {
+  ensureSpace(doc, 60);
+  doc.moveDown(0.5);
+  doc.font('Helvetica-Bold').fontSize(16).fillColor(TEXT_COLOR).text(title, MARGIN, doc.y);
+  const y = doc.y + 4;
+  doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth(doc), y).lineWidth(1).strokeColor(BORDER_COLOR).stroke();
+  doc.y = y + 10;
+}
+
+function subTitle(doc: Doc, title: string): void {
+  ensureSpace(doc, 40);
+  doc.font('Helvetica-Bold').fontSize(12).fillColor(TEXT_COLOR).text(title, MARGIN, doc.y);
+  doc.moveDown(0.3);
+}
+
+function citation(doc: Doc, text: string): void {
+  doc.font('Helvetica-Oblique').fontSize(9).fillColor(MUTED_COLOR).text(text, MARGIN, doc.y);
+  doc.moveDown(0.2);
+}
+
+function bodyText(doc: Doc, text: string): void {
+  doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR).text(text, MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.moveDown(0.6);
+}
+
+function bulletList(doc: Doc, items: string[] = [], emptyText = 'None identified.'): void {
+  if (items.length === 0) {
+    doc.font('Helvetica-Oblique').fontSize(10).fillColor(MUTED_COLOR).text(emptyText, MARGIN, doc.y);
+    doc.moveDown(0.6);
+    return;
+  }
+  doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR)
+    .list(items, MARGIN + 10, doc.y, { width: contentWidth(doc) - 10, bulletRadius: 2 });
+  doc.moveDown(0.6);
+}
+
+/**
+ * Draws a bordered table with a shaded header row. Rows that don't fit on the
+ * page move to the next one and the header is repeated there.
+ */
+function table(doc: Doc, headers: string[], rows: string[][], columnWidths: number[]): void {
+  const padding = 5;
+  const totalWidth = contentWidth(doc);
+  const widths = columnWidths.map((fraction) => fraction * totalWidth);
+
+  const drawRow = (cells: string[], header: boolean) => {
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(9);
+    const height = Math.max(...cells.map((cell, index) => (
+      doc.heightOfString(cell, { width: widths[index] - padding * 2 })
+    ))) + padding * 2;
+
+    if (doc.y + height > bottomLimit(doc)) {
+      doc.addPage();
+      if (!header) drawRow(headers, true);
+    }
+
+    const y = doc.y;
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      if (header) {
+        doc.rect(x, y, widths[index], height).fill(HEADER_FILL);
+      }
+      doc.rect(x, y, widths[index], height).lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+      doc.fillColor(TEXT_COLOR).text(cell, x + padding, y + padding, { width: widths[index] - padding * 2 });
+      x += widths[index];
+    });
+    doc.y = y + height;
+  };
+
+  drawRow(headers, true);
+  rows.forEach((row) => drawRow(row, false));
+  doc.x = MARGIN;
+  doc.moveDown(0.8);
+}
+
+// A half-circle gauge filled up to the score
+function scoreGauge(doc: Doc, centerX: number, centerY: number, radius: number, score: number, label: string): void {
+  const arcPath = (fraction: number) => {
+    const angle = Math.PI * (1 - fraction);
+    const endX = centerX + radius * Math.cos(angle);
+    const endY = centerY - radius * Math.sin(angle);
+    return `M ${centerX - radius} ${centerY} A ${radius} ${radius} 0 0 1 ${endX} ${endY}`;
+  };
+  const clamped = Math.min(Math.max(score, 0), 100);
+
+  doc.lineCap('round');
+  doc.path(arcPath(1)).lineWidth(radius / 5).strokeColor('#E5E7EB').stroke();
+  if (clamped > 0) {
+    doc.path(arcPath(clamped / 100)).lineWidth(radius / 5).strokeColor(scoreColor(clamped)).stroke();
+  }
+  doc.lineCap('butt');
+
+  doc.font('Helvetica-Bold').fontSize(radius / 3).fillColor(TEXT_COLOR)
+    .text(formatScore(score), centerX - radius, centerY - radius / 2.5, { width: radius * 2, align: 'center' });
+  doc.font('Helvetica').fontSize(Math.max(radius / 8, 9)).fillColor(MUTED_COLOR)
+    .text(label, centerX - radius, centerY + radius / 6, { width: radius * 2, align: 'center' });
+}
+
+function scoreBars(doc: Doc, bars: { label: string; score: number | undefined }[]): void {
+  const labelWidth = 150;
+  const valueWidth = 50;
+  const barWidth = contentWidth(doc) - labelWidth - valueWidth;
+
+  bars.forEach(({ label, score }) => {
+    ensureSpace(doc, 22);
+    const y = doc.y;
+    const value = typeof score === 'number' ? Math.min(Math.max(score, 0), 100) : 0;
+
+    doc.font('Helvetica').fontSize(10).fillColor(TEXT_COLOR).text(label, MARGIN, y + 2, { width: labelWidth });
+    doc.rect(MARGIN + labelWidth, y, barWidth, 12).fill('#E5E7EB');
+    if (value > 0) {
+      doc.rect(MARGIN + labelWidth, y, (barWidth * value) / 100, 12).fill(scoreColor(value));
+    }
+    doc.fillColor(TEXT_COLOR).text(formatScore(score), MARGIN + labelWidth + barWidth + 5, y + 2, { width: valueWidth });
+    doc.y = y + 20;
+  });
+  doc.x = MARGIN;
+  doc.moveDown(0.5);
+}
+
+// Mirrors the page's nested circle chart: TAM contains SAM contains SOM, each in true proportion
+function marketSizeChart(doc: Doc, keyMetrics: KeyMetrics): void {
+  const radius = 70;
+  ensureSpace(doc, radius * 2 + 20);
+
+  const centerX = MARGIN + radius;
+  const bottomY = doc.y + radius * 2;
+  const sizes = parseMarketSizes(keyMetrics);
+  const scales = getMarketSizeScales(sizes);
+
+  MARKET_SIZE_LEVELS
+    .map((key, index) => ({ scale: scales[key], color: MARKET_SIZE_COLORS[index] }))
+    .filter(({ scale }) => scale !== null)
+    .sort((a, b) => b.scale! - a.scale!)
+    .forEach(({ scale, color }) => {
+      doc.circle(centerX, bottomY - radius * scale!, radius * scale!).fill(color);
+    });
+
+  let legendY = bottomY - radius * 2 + 20;
+  MARKET_SIZE_LEVELS.forEach((key, index) => {
+    const legendX = MARGIN + radius * 2 + 30;
+    doc.rect(legendX, legendY, 10, 10).fill(MARKET_SIZE_COLORS[index]);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(TEXT_COLOR)
+      .text(`${KEY_METRIC_LABELS[key]}: `, legendX + 16, legendY, { continued: true })
+      .font('Helvetica').text(keyMetrics[key] || 'Not available', { width: contentWidth(doc) - radius * 2 - 50 });
+    legendY = Math.max(doc.y, legendY + 16) + 8;
+  });
+
+  doc.x = MARGIN;
+  doc.y = Math.max(bottomY, legendY) + 15;
+  const warnings = checkMarketSizes(keyMetrics, sizes);
+  if (warnings.length > 0) {
+    bulletList(doc, warnings);
+  }
+}
+
+function swotGrid(doc: Doc, swot: SwotAnalysis | undefined): void {
+  const quadrants: [keyof SwotAnalysis, string, string][] = [
+    ['strengths', 'Strengths', '#DCFCE7'],
+    ['weaknesses', 'Weaknesses', '#FEE2E2'],
+    ['opportunities', 'Opportunities', '#DBEAFE'],
+    ['threats', 'Threats', '#FEF9C3'],
+  ];
+  const gap = 10;
+  const width = (contentWidth(doc) - gap) / 2;
+  const padding = 8;
+
+  const quadrantHeight = ([key, title]: [keyof SwotAnalysis, string, string]) => {
+    doc.font('Helvetica').fontSize(10);
+    const items = swot?.[key] ?? [];
+    const itemsHeight = items.reduce((sum, item) => sum + doc.heightOfString(`- ${item}`, { width: width - padding * 2 }) + 2, 0);
+    doc.font('Helvetica-Bold').fontSize(11);
+    return doc.heightOfString(title) + itemsHeight + padding * 3;
+  };
+
+  [quadrants.slice(0, 2), quadrants.slice(2)].forEach((pair) => {
+    const height = Math.max(...pair.map(quadrantHeight), 60);
+    ensureSpace(doc, height + gap);
+    const y = doc.y;
+
+    pair.forEach(([key, title, fill], index) => {
+      const x = MARGIN + index * (width + gap);
+      doc.rect(x, y, width, height).fill(fill);
+      doc.font('Helvetica-Bold').fontSize(11).fillColor(TEXT_COLOR).text(title, x + padding, y + padding, { width: width - padding * 2 });
+      doc.font('Helvetica').fontSize(10);
+      (swot?.[key] ?? []).forEach((item) => {
+        doc.text(`- ${item}`, x + padding, doc.y + 2, { width: width - padding * 2 });
+      });
+    });
+    doc.y = y + height + gap;
+  });
+  doc.x = MARGIN;
+  doc.moveDown(0.5);
+}
+
+function dueDiligenceTable(doc: Doc, points: DueDiligencePoint[] = []): void {
+  if (points.length === 0) {
+    bulletList(doc, [], 'No due diligence points available.');
+    return;
+  }
+  table(doc, ['Point', 'Score'], points.map(({ point, score }) => [point, formatScore(score)]), [0.8, 0.2]);
+}
+
+function coverPage(doc: Doc, result: AnalysisResult, date: Date): void {
+  const width = contentWidth(doc);
+
+  doc.font('Helvetica').fontSize(12).fillColor(MUTED_COLOR)
+    .text('STARTUP IDEA ANALYSIS REPORT', MARGIN, 120, { width, align: 'center', characterSpacing: 2 });
+  doc.moveDown(1.5);
+  doc.font('Helvetica-Bold').fontSize(24).fillColor(TEXT_COLOR).text(result.idea, { width, align: 'center' });
+  doc.moveDown(1);
+
+  const details = [
+    date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+    `Stage: ${result.stageRubric ? `${result.stageRubric.label} rubric` : result.startupStage}`,
+    result.scoringRubric ? `Scoring rubric: ${result.scoringRubric.name} v${result.scoringRubric.version}` : '',
+    result.targetMarket ? `Target market: ${result.targetMarket}` : '',
+  ].filter(Boolean);
+  doc.font('Helvetica').fontSize(12).fillColor(MUTED_COLOR).text(details.join('   |   '), { width, align: 'center' });
+
+  scoreGauge(doc, doc.page.width / 2, doc.y + 220, 120, result.globalScore, 'Global Score');
+}
+
+function addFooters(doc: Doc, idea: string): void {
+  const range = doc.bufferedPageRange();
+  const label = idea.length > 80 ? `${idea.slice(0, 77)}...` : idea;
+
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    // Writing inside the bottom margin would otherwise make pdfkit add a page
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - MARGIN;
+    doc.moveTo(MARGIN, y - 8).lineTo(doc.page.width - MARGIN, y - 8).lineWidth(0.5).strokeColor(BORDER_COLOR).stroke();
+    doc.font('Helvetica').fontSize(8).fillColor(MUTED_COLOR);
+    doc.text(label, MARGIN, y, { width: contentWidth(doc) - 80, lineBreak: false });
+    doc.text(`Page ${index + 1} of ${range.count}`, doc.page.width - MARGIN - 80, y, { width: 80, align: 'right', lineBreak: false });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+/**
+ * Renders the full analysis as a printable PDF: a cover page with the idea,
+ * date and global score gauge, then scores, SWOT, the investment memo, key
+ * metrics with the market size chart, due diligence, competition and
+ * industry averages.
+ */
+export function generateReportPdf(result: AnalysisResult, date = new Date()): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: MARGIN,
+      bufferPages: true,
+      info: { Title: `Startup Idea Analysis: ${result.idea}`, Creator: 'Startup Idea Validator' },
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    coverPage(doc, result, date);
+
+    doc.addPage();
+    sectionTitle(doc, 'Score Breakdown');
+    scoreBars(doc, [
+      { label: 'Global Score', score: result.globalScore },
+      { label: `Tech Score (weight ${Math.round(result.weights.tech * 100)}%)`, score: result.techScore },
+      { label: `GTM Score (weight ${Math.round(result.weights.gtm * 100)}%)`, score: result.gtmScore },
+      { label: `Confidence Score (weight ${Math.round(result.weights.investmentMemo * 100)}%)`, score: result.confidenceScore },
+    ]);
+    subTitle(doc, 'Investment Memo Quality');
+    scoreBars(doc, (Object.entries(INVESTMENT_MEMO_SCORE_LABELS) as [keyof InvestmentMemoScores, string][])
+      .filter(([key]) => typeof result.investmentMemoScores[key] === 'number')
+      .map(([key, label]) => ({ label, score: result.investmentMemoScores[key]! })));
+
+    sectionTitle(doc, 'SWOT Analysis');
+    swotGrid(doc, result.swot);
+
+    sectionTitle(doc, 'Investment Memo');
+    (Object.entries(INVESTMENT_MEMO_SECTION_LABELS) as [keyof InvestmentMemo, string][]).forEach(([key, label]) => {
+      const text = result.investmentMemo[key] as string | undefined;
+      if (!text) return;
+      subTitle(doc, label);
+      const pages = result.memoCitations?.[key];
+      if (pages && pages.length > 0) {
+        citation(doc, `Source: ${formatDeckCitation(pages, (result.pitchDeckStats?.slides ?? 0) > 0)}`);
+      }
+      bodyText(doc, text);
+    });
+    const risks = result.investmentMemo.keyRisksAndMitigation ?? [];
+    if (risks.length > 0) {
+      subTitle(doc, 'Key Risks and Mitigation');
+      table(doc, ['Risk', 'Mitigation'], risks.map(({ risk, mitigation }) => [risk, mitigation]), [0.5, 0.5]);
+    }
+
+    sectionTitle(doc, 'Key Metrics');
+    table(
+      doc,
+      ['Metric', 'Value'],
+      getKeyMetricLabels(result.investmentMemo.keyMetrics)
+        .map(([key, label]) => [label, result.investmentMemo.keyMetrics[key] || 'N/A']),
+      [0.3, 0.7]
+    );
+    subTitle(doc, 'Market Size');
+    marketSizeChart(doc, result.investmentMemo.keyMetrics);
+
+    sectionTitle(doc, 'Due Diligence: Tech');
+    dueDiligenceTable(doc, result.dueDiligenceTech);
+    sectionTitle(doc, 'Due Diligence: Go-to-Market');
+    dueDiligenceTable(doc, result.dueDiligenceGTM);
+
+    sectionTitle(doc, 'Competition');
+    bulletList(doc, result.competition, 'No competitors identified.');
+
+    sectionTitle(doc, 'Industry Averages');
+    table(doc, ['Metric', 'Average'], [
+      ['Funding', result.industryAverages.averageFunding],
+      ['Time to Market', result.industryAverages.averageTimeToMarket],
+      ['Customer Acquisition Cost', result.industryAverages.averageCAC],
+      ['Lifetime Value', result.industryAverages.averageLTV],
+      ['Burn Rate', result.industryAverages.averageBurnRate],
+      ['Revenue Growth', result.industryAverages.averageRevenueGrowth],
+    ], [0.4, 0.6]);
+
+    addFooters(doc, result.idea);
+    doc.end();
+  });
+}
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { normalizeScoringRubricFields, ScoringRubric, ScoringRubricFields } from '@/lib/scoringRubric';
+import { isValidAnalysisId } from './analysisStore';
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), 'data', 'rubrics');
+
+// Every version is kept, oldest first, so the rubric behind a saved analysis can still be looked up.
+// Deleting a rubric only marks it, for the same reason.
+interface StoredRubric {
+  id: string;
+  versions: ScoringRubric[];
+  deletedAt?: string;
+}
+
+function getStoreDir(): string {
+  return process.env.RUBRIC_STORE_DIR || DEFAULT_STORE_DIR;
+}
+
+function rubricPath(id: string): string | null {
+  return isValidAnalysisId(id) ? path.join(getStoreDir(), `${id}.json`) : null;
+}
+
+async function readRubricFile(filePath: string): Promise<StoredRubric | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeRubricFile(rubric: StoredRubric): Promise<void> {
+  const filePath = rubricPath(rubric.id);
+  if (!filePath) {
+    throw new Error(`Invalid rubric id "${rubric.id}"`);
+  }
+
+  await fs.mkdir(getStoreDir(), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(rubric, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+async function readStoredRubric(id: string): Promise<StoredRubric | null> {
+  const filePath = rubricPath(id);
+  return filePath ? readRubricFile(filePath) : null;
+}
+
+function latestVersion(rubric: StoredRubric): ScoringRubric {
+  return rubric.versions[rubric.versions.length - 1];
+}
+
+// Latest version of every rubric, by name
+export async function listRubrics(): Promise<ScoringRubric[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(getStoreDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const rubrics = await Promise.all(
+    fileNames
+      .filter((fileName) => fileName.endsWith('.json'))
+      .map((fileName) => readRubricFile(path.join(getStoreDir(), fileName)))
+  );
+
+  return rubrics
+    .filter((rubric): rubric is StoredRubric => rubric !== null && !rubric.deletedAt)
+    .map(latestVersion)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// The latest version unless another one is asked for; a deleted rubric only has its versions
+export async function getRubric(id: string, version?: number): Promise<ScoringRubric | null> {
+  const stored = await readStoredRubric(id);
+  if (!stored) return null;
+  if (version === undefined) return stored.deletedAt ? null : latestVersion(stored);
+  return stored.versions.find((rubric) => rubric.version === version) ?? null;
+}
+
+export async function getRubricVersions(id: string): Promise<ScoringRubric[] | null> {
+  return (await readStoredRubric(id))?.versions ?? null;
+}
+
+export async function createRubric(fields: ScoringRubricFields): Promise<ScoringRubric> {
+  const now = new Date().toISOString();
+  const rubric: ScoringRubric = {
+    id: crypto.randomUUID(),
+    ...normalizeScoringRubricFields(fields),
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await writeRubricFile({ id: rubric.id, versions: [rubric] });
+  return rubric;
+}
+
+// Adds a version with the new fields; null when the rubric doesn't exist
+export async function updateRubric(id: string, fields: ScoringRubricFields): Promise<ScoringRubric | null> {
+  const stored = await readStoredRubric(id);
+  if (!stored || stored.deletedAt) return null;
+
+  const previous = latestVersion(stored);
+  const rubric: ScoringRubric = {
+    ...previous,
+    ...normalizeScoringRubricFields(fields),
+    version: previous.version + 1,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await writeRubricFile({ id, versions: [...stored.versions, rubric] });
+  return rubric;
+}
+
+// Hidden from the list and from new analyses; its versions stay readable by number
+export async function deleteRubric(id: string): Promise<boolean> {
+  const stored = await readStoredRubric(id);
+  if (!stored || stored.deletedAt) return false;
+
+  await writeRubricFile({ ...stored, deletedAt: new Date().toISOString() });
+  return true;
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScoringRubricFields, validateScoringRubricFields } from '@/lib/scoringRubric';
+import { deleteRubric, getRubric, getRubricVersions, updateRubric } from '../../rubricStore';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// `?version=2` returns that version; `?versions=all` every version, oldest first
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  const version = req.nextUrl.searchParams.get('version');
+  if (version !== null && !/^\d+$/.test(version)) {
+    return NextResponse.json({ error: 'version must be a positive whole number.' }, { status: 400 });
+  }
+
+  try {
+    if (req.nextUrl.searchParams.get('versions') === 'all') {
+      const versions = await getRubricVersions(params.id);
+      return versions
+        ? NextResponse.json({ versions })
+        : NextResponse.json({ error: 'Rubric not found.' }, { status: 404 });
+    }
+
+    const rubric = await getRubric(params.id, version !== null ? Number(version) : undefined);
+    if (!rubric) {
+      return NextResponse.json({ error: 'Rubric not found.' }, { status: 404 });
+    }
+    return NextResponse.json(rubric);
+  } catch (error) {
+    console.error('Failed to load rubric:', error);
+    return NextResponse.json({ error: 'Failed to load the rubric.' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  const body = await req.json().catch(() => null);
+  const errors = validateScoringRubricFields(body);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid rubric.', details: errors }, { status: 400 });
+  }
+
+  try {
+    const rubric = await updateRubric(params.id, body as ScoringRubricFields);
+    if (!rubric) {
+      return NextResponse.json({ error: 'Rubric not found.' }, { status: 404 });
+    }
+    return NextResponse.json(rubric);
+  } catch (error) {
+    console.error('Failed to update rubric:', error);
+    return NextResponse.json({ error: 'Failed to update the rubric.' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    if (!await deleteRubric(params.id)) {
+      return NextResponse.json({ error: 'Rubric not found.' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Failed to delete rubric:', error);
+    return NextResponse.json({ error: 'Failed to delete the rubric.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ScoringRubricFields, validateScoringRubricFields } from '@/lib/scoringRubric';
+import { createRubric, listRubrics } from '../rubricStore';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ rubrics: await listRubrics() });
+  } catch (error) {
+    console.error('Failed to list rubrics:', error);
+    return NextResponse.json({ error: 'Failed to load the scoring rubrics.' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const errors = validateScoringRubricFields(body);
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid rubric.', details: errors }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await createRubric(body as ScoringRubricFields), { status: 201 });
+  } catch (error) {
+    console.error('Failed to create rubric:', error);
+    return NextResponse.json({ error: 'Failed to save the rubric.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { AnalysisResult } from '@/lib/analysis';
+import { HideableReportSection, redactResult, SharedReport, SharedReportSummary } from '@/lib/sharedReport';
+import { isValidAnalysisId } from './analysisStore';
+
+const DEFAULT_STORE_DIR = path.join(process.cwd(), 'data', 'shares');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ShareOptions {
+  analysisId?: string;
+  expiresInDays?: number | null;
+  hiddenSections?: HideableReportSection[];
+}
+
+function getStoreDir(): string {
+  return process.env.SHARE_STORE_DIR || DEFAULT_STORE_DIR;
+}
+
+function reportPath(id: string): string | null {
+  return isValidAnalysisId(id) ? path.join(getStoreDir(), `${id}.json`) : null;
+}
+
+async function readReportFile(filePath: string): Promise<SharedReport | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function writeReportFile(report: SharedReport): Promise<void> {
+  const filePath = reportPath(report.id);
+  if (!filePath) {
+    throw new Error(`Invalid report id "${report.id}"`);
+  }
+
+  await fs.mkdir(getStoreDir(), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(report, null, 2));
+  await fs.rename(tempPath, filePath);
+}
+
+function toSummary({ result, ...report }: SharedReport): SharedReportSummary {
+  return { ...report, idea: result.idea };
+}
+
+export async function listSharedReports(): Promise<SharedReportSummary[]> {
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(getStoreDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const reports = await Promise.all(
+    fileNames
+      .filter((fileName) => fileName.endsWith('.json'))
+      .map((fileName) => readReportFile(path.join(getStoreDir(), fileName)))
+  );
+
+  return reports
+    .filter((report): report is SharedReport => report !== null)
+    .map(toSummary)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Returned whatever its status; callers decide what to show for expired or revoked reports
+export async function getSharedReport(id: string): Promise<SharedReport | null> {
+  const filePath = reportPath(id);
+  return filePath ? readReportFile(filePath) : null;
+}
+
+/**
+ * Stores a read-only snapshot of a result under a new unguessable id. Hidden
+ * sections are removed from the snapshot itself.
+ */
+export async function createSharedReport(result: AnalysisResult, options: ShareOptions = {}): Promise<SharedReportSummary> {
+  const hiddenSections = options.hiddenSections ?? [];
+  const now = new Date();
+  const report: SharedReport = {
+    id: crypto.randomUUID(),
+    createdAt: now.toISOString(),
+    expiresAt: options.expiresInDays ? new Date(now.getTime() + options.expiresInDays * DAY_MS).toISOString() : null,
+    revokedAt: null,
+    hiddenSections,
+    analysisId: options.analysisId ?? null,
+    result: redactResult(result, hiddenSections),
+  };
+
+  await writeReportFile(report);
+  return toSummary(report);
+}
+
+// Revoked reports are kept so their link can say so instead of looking like it never existed
+export async function revokeSharedReport(id: string): Promise<SharedReportSummary | null> {
+  const report = await getSharedReport(id);
+  if (!report) return null;
+
+  if (!report.revokedAt) {
+    report.revokedAt = new Date().toISOString();
+    await writeReportFile(report);
+  }
+  return toSummary(report);
+}
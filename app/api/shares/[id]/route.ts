@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { revokeSharedReport } from '../../shareStore';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Revokes the link; the report page then says so instead of showing the analysis
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  try {
+    const report = await revokeSharedReport(params.id);
+    if (!report) {
+      return NextResponse.json({ error: 'Shared report not found.' }, { status: 404 });
+    }
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Failed to revoke shared report:', error);
+    return NextResponse.json({ error: 'Failed to revoke the report link.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAnalysisResult } from '@/lib/analysis';
+import { isHideableReportSection } from '@/lib/sharedReport';
+import { getAnalysis } from '../analysisStore';
+import { createSharedReport, listSharedReports } from '../shareStore';
+
+const MAX_EXPIRY_DAYS = 365;
+
+export async function GET() {
+  try {
+    return NextResponse.json({ reports: await listSharedReports() });
+  } catch (error) {
+    console.error('Failed to list shared reports:', error);
+    return NextResponse.json({ error: 'Failed to load shared reports.' }, { status: 500 });
+  }
+}
+
+/**
+ * Creates a read-only report link for a saved analysis (`analysisId`) or the
+ * one on the page (`result`), optionally expiring after `expiresInDays` and
+ * without the sections listed in `hiddenSections`.
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  const expiresInDays = body?.expiresInDays ?? null;
+  if (expiresInDays !== null
+    && (typeof expiresInDays !== 'number' || !(expiresInDays > 0) || expiresInDays > MAX_EXPIRY_DAYS)) {
+    return NextResponse.json({ error: `expiresInDays must be greater than 0 and at most ${MAX_EXPIRY_DAYS}.` }, { status: 400 });
+  }
+  const hiddenSections = body?.hiddenSections ?? [];
+  if (!Array.isArray(hiddenSections) || !hiddenSections.every(isHideableReportSection)) {
+    return NextResponse.json({ error: 'hiddenSections contains an unknown section.' }, { status: 400 });
+  }
+
+  try {
+    let result: unknown = body?.result ?? null;
+    if (typeof body?.analysisId === 'string') {
+      const saved = await getAnalysis(body.analysisId);
+      if (!saved?.result) {
+        return NextResponse.json({ error: 'Analysis not found.' }, { status: 404 });
+      }
+      result = saved.result;
+    }
+    if (!isAnalysisResult(result)) {
+      return NextResponse.json({ error: 'Provide an analysisId or a complete analysis result.' }, { status: 400 });
+    }
+
+    const report = await createSharedReport(result, {
+      analysisId: typeof body.analysisId === 'string' ? body.analysisId : undefined,
+      expiresInDays,
+      hiddenSections,
+    });
+    return NextResponse.json(report, { status: 201 });
+  } catch (error) {
+    console.error('Failed to share analysis:', error);
+    return NextResponse.json({ error: 'Failed to create the report link.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { readEventStream } from '@/lib/eventStream';
+import { flatRowsToCsv, flattenResult } from '@/lib/analysisExport';
+import {
+  BatchRow,
+  BatchRowUpdate,
+  BatchSummary,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_ROWS,
+} from '@/lib/batchAnalysis';
+import { DEFAULT_STARTUP_STAGE, STAGE_RUBRICS } from '@/lib/stageRubric';
+import { getScoreColor } from '@/components/AnalysisReport';
+
+type BatchTableRow = BatchRow & Omit<BatchRowUpdate, 'index'> & { number: number };
+
+type SortField = 'number' | 'idea' | 'status' | 'globalScore' | 'techScore' | 'gtmScore' | 'confidenceScore';
+
+const STATUS_ORDER: Record<BatchTableRow['status'], number> = { done: 0, running: 1, pending: 2, failed: 3 };
+
+const SCORE_COLUMNS: { label: string; field: Exclude<SortField, 'number' | 'idea' | 'status'> }[] = [
+  { label: 'Global', field: 'globalScore' },
+  { label: 'Tech', field: 'techScore' },
+  { label: 'GTM', field: 'gtmScore' },
+  { label: 'Confidence', field: 'confidenceScore' },
+];
+
+function compareRows(a: BatchTableRow, b: BatchTableRow, field: SortField): number {
+  if (field === 'number') return a.number - b.number;
+  if (field === 'idea') return a.idea.localeCompare(b.idea);
+  if (field === 'status') return STATUS_ORDER[a.status] - STATUS_ORDER[b.status];
+  // Rows without a result sort below every score
+  return (a.result?.[field] ?? -1) - (b.result?.[field] ?? -1);
+}
+
+export default function BatchAnalysis() {
+  const [file, setFile] = useState<File | null>(null);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [rows, setRows] = useState<BatchTableRow[]>([]);
+  const [summary, setSummary] = useState<BatchSummary | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sortField, setSortField] = useState<SortField>('number');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+
+  const runBatch = async () => {
+    if (!file) return;
+
+    setIsRunning(true);
+    setError(null);
+    setRows([]);
+    setSummary(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('concurrency', String(concurrency));
+
+      const response = await fetch('/api/batch', { method: 'POST', body: formData });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to start the batch.');
+      }
+
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'error') {
+          throw new Error((data as { error?: string }).error || 'The batch stopped unexpectedly.');
+        }
+        if (event === 'rows') {
+          setRows((data as { rows: BatchRow[] }).rows.map((row, index) => ({ ...row, number: index + 1, status: 'pending' })));
+        } else if (event === 'row') {
+          const { index, ...update } = data as BatchRowUpdate;
+          setRows((current) => current.map((row) => row.number === index + 1 ? { ...row, ...update } : row));
+        } else if (event === 'done') {
+          setSummary(data as BatchSummary);
+        }
+      });
+    } catch (err) {
+      console.error('Error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to run the batch.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const sortBy = (field: SortField) => {
+    if (field === sortField) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortOrder(field === 'number' || field === 'idea' || field === 'status' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortedRows = [...rows].sort((a, b) => {
+    const order = compareRows(a, b, sortField);
+    return sortOrder === 'asc' ? order : -order;
+  });
+  const finished = rows.filter((row) => row.status === 'done' || row.status === 'failed').length;
+
+  const exportResults = () => {
+    const csv = flatRowsToCsv(sortedRows.map((row) => ({
+      row: row.number,
+      query: row.idea,
+      startupStage: row.startupStage,
+      targetMarket: row.targetMarket,
+      status: row.status,
+      error: row.error ?? '',
+      idea: row.result?.idea ?? '',
+      globalScore: row.result?.globalScore ?? '',
+      ...(row.result ? flattenResult(row.result) : {}),
+    })));
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'batch_analysis_results.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const sortHeader = (label: string, field: SortField) => (
+    <th key={field} className="border border-gray-300 p-2 cursor-pointer select-none" onClick={() => sortBy(field)}>
+      {label}{sortField === field ? (sortOrder === 'asc' ? ' ▲' : ' ▼') : ''}
+    </th>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-4xl font-bold mb-8 text-center">Batch Analysis</h1>
+
+      <div className="max-w-5xl mx-auto">
+        <p className="mb-4">
+          <Link href="/" className="text-blue-500">← Back to the validator</Link>
+        </p>
+
+        <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+          <p className="text-gray-600 mb-4">
+            Upload a CSV with one idea per row and, optionally, a stage ({Object.values(STAGE_RUBRICS).map((rubric) => rubric.label).join(', ')})
+            and a target market column (header row: <code>idea,stage,target market</code>). Up to {MAX_BATCH_ROWS} ideas per batch.
+          </p>
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              className="flex-grow"
+            />
+            <label className="text-gray-600" htmlFor="concurrency">Parallel analyses</label>
+            <select
+              id="concurrency"
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              className="p-2 border rounded"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+            <button
+              onClick={runBatch}
+              disabled={!file || isRunning}
+              className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600 disabled:opacity-50"
+            >
+              {isRunning ? 'Analyzing...' : 'Analyze All'}
+            </button>
+          </div>
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+
+        {rows.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-2xl font-semibold">Results</h3>
+              <button
+                onClick={exportResults}
+                disabled={isRunning}
+                className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600 disabled:opacity-50"
+              >
+                Export as CSV
+              </button>
+            </div>
+            <p className="text-gray-600 mb-2">
+              {finished} of {rows.length} analyzed
+              {summary && ` · ${summary.succeeded} succeeded, ${summary.failed} failed`}
+            </p>
+            <div className="w-full bg-gray-200 rounded-full h-2.5 mb-4">
+              <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${(finished / rows.length) * 100}%` }}></div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse border border-gray-300">
+                <thead>
+                  <tr className="bg-gray-100">
+                    {sortHeader('#', 'number')}
+                    {sortHeader('Idea', 'idea')}
+                    <th className="border border-gray-300 p-2">Stage</th>
+                    <th className="border border-gray-300 p-2">Target Market</th>
+                    {sortHeader('Status', 'status')}
+                    {SCORE_COLUMNS.map(({ label, field }) => sortHeader(label, field))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRows.map((row) => (
+                    <tr key={row.number}>
+                      <td className="border border-gray-300 p-2">{row.number}</td>
+                      <td className="border border-gray-300 p-2">{row.idea}</td>
+                      <td className="border border-gray-300 p-2">{row.startupStage || STAGE_RUBRICS[DEFAULT_STARTUP_STAGE].label}</td>
+                      <td className="border border-gray-300 p-2">{row.targetMarket}</td>
+                      <td className="border border-gray-300 p-2">
+                        {row.status === 'failed' ? (
+                          <span className="text-red-600">Failed: {row.error}</span>
+                        ) : (
+                          <span className={row.status === 'running' ? 'text-blue-600' : 'text-gray-600'}>
+                            {row.status === 'done' ? 'Done' : row.status === 'running' ? 'Analyzing…' : 'Queued'}
+                          </span>
+                        )}
+                      </td>
+                      {SCORE_COLUMNS.map(({ field }) => (
+                        <td
+                          key={field}
+                          className={`border border-gray-300 p-2 ${field === 'globalScore' && row.result ? getScoreColor(row.result.globalScore) : ''}`}
+                        >
+                          {row.result ? `${row.result[field].toFixed(1)}%` : ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,73 +1,39 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
-import { Pie } from 'react-chartjs-2';
-import { CSVLink } from 'react-csv';
-import React from 'react';
-
-ChartJS.register(ArcElement, Tooltip, Legend);
+import Link from 'next/link';
+import {
+  calculateGlobalScore,
+  DEFAULT_WEIGHTS,
+  getStageWeights,
+  normalizeWeights,
+  validateWeights,
+  Weights,
+} from '@/lib/scoring';
+import { readEventStream } from '@/lib/eventStream';
+import { AnalysisResult, AnalysisStage, SavedAnalysis, SavedAnalysisSummary } from '@/lib/analysis';
+import AnalysisComparison, {
+  ComparedAnalysis,
+  MAX_COMPARED_ANALYSES,
+  MIN_COMPARED_ANALYSES,
+} from '@/components/AnalysisComparison';
+import IdeaThread, { ThreadRevision } from '@/components/IdeaThread';
+import AnalysisReport, { getScoreColor, PendingSection, ScoreSummary } from '@/components/AnalysisReport';
+import IdeaLibrary from '@/components/IdeaLibrary';
+import RubricManager from '@/components/RubricManager';
+import { LibraryIdea, libraryIdeaQuery } from '@/lib/ideaLibrary';
+import { applyBottomUpMarketSize } from '@/lib/marketSize';
+import { DEFAULT_STARTUP_STAGE, getStageRubric, STAGE_RUBRICS, StartupStage } from '@/lib/stageRubric';
+import { ScoringRubric } from '@/lib/scoringRubric';
+import {
+  getSharedReportStatus,
+  HIDEABLE_REPORT_SECTIONS,
+  HideableReportSection,
+  SharedReportSummary,
+} from '@/lib/sharedReport';
 
 // Remove the targetMarkets array as we're no longer using it
 
-interface ValidatedIdea {
-  idea: string;
-  swot: {
-    strengths: string[];
-    weaknesses: string[];
-    opportunities: string[];
-    threats: string[];
-  };
-  criticalQuestions: string[];
-  actionPlan: string[];
-  targetMarketStrategies: string[];
-  competition: string[];
-  marketDemandIndicators: string[];
-  frameworks: string[];
-  globalScore: number;
-  confidenceScore: number;
-  techScore: number;
-  gtmScore: number;
-  investmentMemo: {
-    summary: string;
-    marketOpportunity: string;
-    businessModel: string;
-    competitiveAdvantage: string;
-    financialProjections: string;
-    fundingRequirements: string;
-    productOverview: string;
-    teamBackground: string;
-    goToMarketStrategy: string;
-    keyMetrics: {
-      tam: string;
-      sam: string;
-      som: string;
-      cac: string;
-      ltv: string;
-      burnRate: string;
-    };
-    keyRisksAndMitigation: { risk: string; mitigation: string }[];
-  };
-  investmentMemoScores: {
-    summary: number;
-    marketOpportunity: number;
-    businessModel: number;
-    competitiveAdvantage: number;
-    financialProjections: number;
-    fundingRequirements: number;
-  };
-  dueDiligenceTech: { point: string; score: number }[];
-  dueDiligenceGTM: { point: string; score: number }[];
-  pitchDeckProcessed: boolean;
-  overallSentiment: 'positive' | 'neutral' | 'negative';
-  sentimentScores: {
-    positive: number;
-    negative: number;
-    neutral: number;
-  };
-  industryAverages: IndustryAverages;
-}
-
 const defaultInvestmentMemo = {
   summary: "Your startup idea has potential. Consider expanding on your unique value proposition and how it addresses a specific market need.",
   marketOpportunity: "Analyze your target market size, growth rate, and any emerging trends that your startup can capitalize on.",
@@ -77,100 +43,85 @@ const defaultInvestmentMemo = {
   fundingRequirements: "Estimate the amount of funding needed to reach key milestones. Break down how the funds will be used across different areas of your startup."
 };
 
-// Add this new interface for saved analyses
-interface SavedAnalysis {
-  id: string;
-  date: string;
-  idea: string;
-  globalScore: number;
-}
-
-interface IndustryAverages {
-  averageFunding: string;
-  averageTimeToMarket: string;
-  averageCAC: string;
-  averageLTV: string;
-  averageBurnRate: string;
-  averageRevenueGrowth: string;
-}
-
-interface NestedCircleChartProps {
-  data: Array<{
-    label: string;
-    subLabel: string;
-    value: number;
-  }>;
-}
-
-const NestedCircleChart: React.FC<NestedCircleChartProps> = ({ data }) => {
-  const totalValue = data.reduce((sum, item) => sum + item.value, 0);
-  let accumulatedRadius = 0;
-
-  return (
-    <svg width="300" height="300" viewBox="0 0 100 100">
-      {data.map((item, index) => {
-        const radius = Math.sqrt(item.value / totalValue) * 50;
-        const circle = (
-          <circle
-            key={`circle-${index}`}
-            cx="50"
-            cy="50"
-            r={radius}
-            fill={`hsl(${index * 120}, 70%, 80%)`}
-            stroke="#fff"
-            strokeWidth="0.5"
-          />
-        );
-        accumulatedRadius += radius;
-        return circle;
-      })}
-      {data.map((item, index) => {
-        const radius = Math.sqrt(item.value / totalValue) * 50;
-        const angle = -Math.PI / 2 + (accumulatedRadius - radius / 2) / 50 * Math.PI;
-        const x = 50 + Math.cos(angle) * 40;
-        const y = 50 + Math.sin(angle) * 40;
-        accumulatedRadius -= radius;
-        return (
-          <text
-            key={`text-${index}`}
-            x={x}
-            y={y}
-            textAnchor="middle"
-            fontSize="4"
-            fill="#333"
-          >
-            {item.label}
-          </text>
-        );
-      })}
-    </svg>
-  );
+const stageProgress: Record<AnalysisStage, { progress: number; label: string }> = {
+  'deck-parsed': { progress: 20, label: 'Pitch deck parsed. Summarizing it...' },
+  'deck-summarized': { progress: 35, label: 'Pitch deck summarized. Analyzing your idea...' },
+  'analysis-ready': { progress: 60, label: 'Analysis ready. Computing scores...' },
+  'scores-computed': { progress: 75, label: 'Scores computed. Gathering industry averages...' },
+  'industry-averages-ready': { progress: 95, label: 'Industry averages ready. Finishing up...' },
 };
 
-function getScoreColor(score: number): string {
-  if (score <= 33.33) {
-    return 'text-red-500';
-  } else if (score <= 66.66) {
-    return 'text-yellow-500';
-  } else {
-    return 'text-green-500';
-  }
+// Fills in defaults so partial (streamed) and complete responses render the same way
+function toAnalysisResult(data: any): AnalysisResult {
+  return {
+    ...data,
+    globalScore: data.globalScore ?? 0,
+    confidenceScore: data.confidenceScore ?? 0,
+    techScore: data.techScore ?? 0,
+    gtmScore: data.gtmScore ?? 0,
+    dueDiligenceTech: data.dueDiligenceTech ?? [],
+    dueDiligenceGTM: data.dueDiligenceGTM ?? [],
+    investmentMemoScores: data.investmentMemoScores ?? {},
+    weights: data.weights ?? DEFAULT_WEIGHTS,
+    startupStage: data.startupStage ?? DEFAULT_STARTUP_STAGE,
+    industryAverages: data.industryAverages ?? {
+      averageFunding: 'N/A',
+      averageTimeToMarket: 'N/A',
+      averageCAC: 'N/A',
+      averageLTV: 'N/A',
+      averageBurnRate: 'N/A',
+      averageRevenueGrowth: 'N/A',
+    },
+    investmentMemo: {
+      ...data.investmentMemo,
+      productOverview: data.investmentMemo?.productOverview || "Product overview not available.",
+      teamBackground: data.investmentMemo?.teamBackground || "Team background not available.",
+      goToMarketStrategy: data.investmentMemo?.goToMarketStrategy || "Go-to-market strategy not available.",
+      keyMetrics: {
+        ...data.investmentMemo?.keyMetrics,
+        tam: data.investmentMemo?.keyMetrics?.tam || "N/A",
+        sam: data.investmentMemo?.keyMetrics?.sam || "N/A",
+        som: data.investmentMemo?.keyMetrics?.som || "N/A",
+        cac: data.investmentMemo?.keyMetrics?.cac || "N/A",
+        ltv: data.investmentMemo?.keyMetrics?.ltv || "N/A",
+        burnRate: data.investmentMemo?.keyMetrics?.burnRate || "N/A",
+      },
+      keyRisksAndMitigation: data.investmentMemo?.keyRisksAndMitigation ?? [],
+    },
+  };
 }
 
 export default function Home() {
   const [query, setQuery] = useState('');
+  const [startupStage, setStartupStage] = useState<StartupStage>(DEFAULT_STARTUP_STAGE);
+  const [rubrics, setRubrics] = useState<ScoringRubric[]>([]);
+  // Empty for the stage rubric
+  const [selectedRubricId, setSelectedRubricId] = useState('');
   // Remove the targetMarket state
   const [pitchDeck, setPitchDeck] = useState<File | null>(null);
-  const [validatedIdea, setValidatedIdea] = useState<ValidatedIdea | null>(null);
+  const [validatedIdea, setValidatedIdea] = useState<AnalysisResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [progress, setProgress] = useState(0);
   const [fileName, setFileName] = useState<string | null>(null);
-  const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysis[]>([]);
+  const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysisSummary[]>([]);
   const [sortField, setSortField] = useState<'date' | 'score'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [filterScore, setFilterScore] = useState<number | null>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const [weightInputs, setWeightInputs] = useState<Weights>(DEFAULT_WEIGHTS);
+  const [progressLabel, setProgressLabel] = useState('Analyzing your startup idea...');
+  const [pendingSections, setPendingSections] = useState<PendingSection[]>([]);
+  const [selectedAnalysisIds, setSelectedAnalysisIds] = useState<string[]>([]);
+  const [comparedAnalyses, setComparedAnalyses] = useState<ComparedAnalysis[] | null>(null);
+  // Thread the next save is added to; empty starts a new idea thread
+  const [saveThreadId, setSaveThreadId] = useState('');
+  const [threadRevisions, setThreadRevisions] = useState<ThreadRevision[] | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [shareExpiresInDays, setShareExpiresInDays] = useState<number | null>(null);
+  const [shareHiddenSections, setShareHiddenSections] = useState<HideableReportSection[]>([]);
+  const [sharedReports, setSharedReports] = useState<SharedReportSummary[]>([]);
+  const [libraryReloadKey, setLibraryReloadKey] = useState(0);
 
   const handleFileChange = useCallback((file: File | null) => {
     if (file) {
@@ -218,107 +169,217 @@ export default function Home() {
     }
   }, [handleFileChange]);
 
-  const generateAndValidateIdea = async (retryCount = 0) => {
+  // Library ideas are analyzed with their own text and without the uploaded deck
+  const generateAndValidateIdea = async (ideaQuery = query, deck = pitchDeck, libraryIdeaId?: string) => {
     setIsLoading(true);
     setError(null);
     setProgress(0);
+    setProgressLabel('Analyzing your startup idea...');
+    let partial: any = null;
     try {
-      setProgress(25);
+      setProgress(10);
       const formData = new FormData();
-      formData.append('query', query);
-      if (pitchDeck) {
-        formData.append('pitchDeck', pitchDeck);
+      formData.append('query', ideaQuery);
+      formData.append('startupStage', startupStage);
+      if (selectedRubricId) {
+        formData.append('rubricId', selectedRubricId);
+      }
+      if (deck) {
+        formData.append('pitchDeck', deck);
+      }
+      if (libraryIdeaId) {
+        formData.append('libraryIdeaId', libraryIdeaId);
       }
 
-      const response = await fetch('/api/generate-idea', {
+      const response = await fetch('/api/generate-idea?stream=true', {
         method: 'POST',
         body: formData,
       });
-      setProgress(50);
-      
+
       if (!response.ok) {
-        throw new Error('Failed to fetch');
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to fetch');
       }
 
-      const data = await response.json();
-      console.log('API Response:', data);
-
-      // Check if scores are all zero
-      const allScoresZero = 
-        data.globalScore === 0 && 
-        data.confidenceScore === 0 && 
-        data.techScore === 0 && 
-        data.gtmScore === 0;
+      // Render each section as soon as the server reports it
+      let result: any = null;
+      await readEventStream(response, ({ event, data }) => {
+        if (event === 'error') {
+          throw new Error((data as { error?: string }).error || 'Failed to fetch');
+        }
+        if (event === 'result') {
+          result = data;
+          return;
+        }
+
+        const { stage, data: stageData } = data as { stage: AnalysisStage; data: any };
+        setProgress(stageProgress[stage].progress);
+        setProgressLabel(stageProgress[stage].label);
+
+        if (stage === 'analysis-ready') {
+          partial = stageData;
+          setWeightInputs(stageData.weights);
+          setPendingSections(['scores', 'industryAverages']);
+        } else if (stage === 'scores-computed') {
+          partial = { ...partial, ...stageData };
+          setPendingSections(['industryAverages']);
+        } else if (stage === 'industry-averages-ready') {
+          partial = { ...partial, industryAverages: stageData };
+          setPendingSections([]);
+        }
+        if (partial) {
+          setValidatedIdea(toAnalysisResult(partial));
+        }
+      });
 
-      if (allScoresZero && retryCount < 1) {
-        console.log('All scores are zero. Retrying...');
-        return generateAndValidateIdea(retryCount + 1);
+      if (!result) {
+        throw new Error('Failed to fetch');
       }
+      console.log('API Response:', result);
 
-      // Process data and set state
-      const processedData = {
-        ...data,
-        globalScore: data.globalScore ?? 0,
-        confidenceScore: data.confidenceScore ?? 0,
-        techScore: data.techScore ?? 0,
-        gtmScore: data.gtmScore ?? 0,
-        dueDiligenceTech: data.dueDiligenceTech ?? [],
-        dueDiligenceGTM: data.dueDiligenceGTM ?? [],
-        investmentMemoScores: data.investmentMemoScores ?? {},
-        investmentMemo: {
-          ...data.investmentMemo,
-          productOverview: data.investmentMemo?.productOverview || "Product overview not available.",
-          teamBackground: data.investmentMemo?.teamBackground || "Team background not available.",
-          goToMarketStrategy: data.investmentMemo?.goToMarketStrategy || "Go-to-market strategy not available.",
-          keyMetrics: {
-            tam: data.investmentMemo?.keyMetrics?.tam || "N/A",
-            sam: data.investmentMemo?.keyMetrics?.sam || "N/A",
-            som: data.investmentMemo?.keyMetrics?.som || "N/A",
-            cac: data.investmentMemo?.keyMetrics?.cac || "N/A",
-            ltv: data.investmentMemo?.keyMetrics?.ltv || "N/A",
-            burnRate: data.investmentMemo?.keyMetrics?.burnRate || "N/A",
-          },
-          keyRisksAndMitigation: data.investmentMemo?.keyRisksAndMitigation ?? [],
-        },
-      };
-
+      const processedData = toAnalysisResult(result);
       setValidatedIdea(processedData);
+      setWeightInputs(processedData.weights);
+      setPendingSections([]);
       setProgress(100);
+      if (libraryIdeaId) {
+        setLibraryReloadKey(key => key + 1);
+      }
     } catch (err) {
       console.error('Error:', err);
-      setError('An error occurred while processing your request.');
+      if (partial) {
+        setValidatedIdea(null);
+      }
+      setPendingSections([]);
+      setError(err instanceof Error && err.message !== 'Failed to fetch'
+        ? err.message
+        : 'An error occurred while processing your request.');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const analyzeLibraryIdea = (idea: LibraryIdea) => {
+    const ideaQuery = libraryIdeaQuery(idea);
+    setQuery(ideaQuery);
+    setPitchDeck(null);
+    setFileName(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    generateAndValidateIdea(ideaQuery, null, idea.id);
+  };
+
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     generateAndValidateIdea();
   };
 
+  // Re-weights the global score locally; the sub-scores don't change so there is no need to re-run the analysis
+  const applyWeights = (inputs: Weights) => {
+    setWeightInputs(inputs);
+    if (!validatedIdea) return;
+
+    const total = inputs.tech + inputs.gtm + inputs.investmentMemo;
+    if (validateWeights(inputs).length > 0 || total <= 0) return;
+
+    const weights = normalizeWeights(inputs);
+    setValidatedIdea({
+      ...validatedIdea,
+      weights,
+      globalScore: calculateGlobalScore(validatedIdea, weights),
+    });
+  };
+
+  // Shares a read-only snapshot at /report/:id rather than this page, which recipients would see empty
   const handleShare = async () => {
     if (!validatedIdea) return;
 
-    const shareText = `Check out my startup idea: ${validatedIdea.idea}\n\nStrengths: ${validatedIdea.swot.strengths.join(', ')}\nWeaknesses: ${validatedIdea.swot.weaknesses.join(', ')}\nOpportunities: ${validatedIdea.swot.opportunities.join(', ')}\nThreats: ${validatedIdea.swot.threats.join(', ')}\n\nAction Plan: ${validatedIdea.actionPlan.join(', ')}`;
+    let url: string;
+    try {
+      const response = await fetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          result: validatedIdea,
+          expiresInDays: shareExpiresInDays,
+          hiddenSections: shareHiddenSections,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to create the report link.');
+      }
+      const report: SharedReportSummary = await response.json();
+      setSharedReports([report, ...sharedReports]);
+      url = reportUrl(report.id);
+    } catch (err) {
+      console.error('Error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create the report link.');
+      return;
+    }
 
     if (navigator.share) {
       try {
         await navigator.share({
           title: 'My Startup Idea',
-          text: shareText,
-          url: window.location.href,
+          text: `Check out my startup idea: ${validatedIdea.idea}`,
+          url,
         });
       } catch (error) {
         console.error('Error sharing:', error);
       }
     } else {
-      // Fallback to copying to clipboard
-      navigator.clipboard.writeText(shareText).then(() => {
-        alert('Summary copied to clipboard!');
-      }, (err) => {
-        console.error('Could not copy text: ', err);
-      });
+      copyReportUrl(url);
+    }
+  };
+
+  const reportUrl = (id: string) => `${window.location.origin}/report/${id}`;
+
+  const copyReportUrl = (url: string) => {
+    navigator.clipboard.writeText(url).then(() => {
+      alert('Report link copied to clipboard!');
+    }, (err) => {
+      console.error('Could not copy text: ', err);
+    });
+  };
+
+  const toggleShareHiddenSection = (section: HideableReportSection) => {
+    setShareHiddenSections(shareHiddenSections.includes(section)
+      ? shareHiddenSections.filter(hidden => hidden !== section)
+      : [...shareHiddenSections, section]);
+  };
+
+  const loadSharedReports = async () => {
+    const response = await fetch('/api/shares');
+    if (!response.ok) {
+      throw new Error('Failed to load shared reports.');
+    }
+    const data = await response.json();
+    setSharedReports(data.reports);
+  };
+
+  const loadRubrics = async () => {
+    const response = await fetch('/api/rubrics');
+    if (!response.ok) {
+      throw new Error('Failed to load scoring rubrics.');
+    }
+    const data = await response.json();
+    setRubrics(data.rubrics);
+  };
+
+  const updateRubrics = (updated: ScoringRubric[]) => {
+    setRubrics(updated);
+    if (!updated.some((rubric) => rubric.id === selectedRubricId)) {
+      setSelectedRubricId('');
+    }
+  };
+
+  const revokeSharedReport = async (id: string) => {
+    const response = await fetch(`/api/shares/${id}`, { method: 'DELETE' });
+    if (response.ok) {
+      const revoked: SharedReportSummary = await response.json();
+      setSharedReports(sharedReports.map(report => report.id === id ? revoked : report));
+    } else {
+      setError('Failed to revoke the report link.');
     }
   };
 
@@ -332,70 +393,259 @@ export default function Home() {
     }
   }, [validatedIdea]);
 
-  useEffect(() => {
-    // Load saved analyses from localStorage
-    const savedAnalysesString = localStorage.getItem('savedAnalyses');
-    if (savedAnalysesString) {
-      setSavedAnalyses(JSON.parse(savedAnalysesString));
+  const loadSavedAnalyses = async () => {
+    const response = await fetch('/api/analyses');
+    if (!response.ok) {
+      throw new Error('Failed to load saved analyses.');
     }
+    const data = await response.json();
+    setSavedAnalyses(data.analyses);
+  };
+
+  useEffect(() => {
+    // Analyses used to be kept in localStorage; move them to the server once, then read from there
+    const importLegacyAnalyses = async () => {
+      const savedAnalysesString = localStorage.getItem('savedAnalyses');
+      let legacyAnalyses: unknown = null;
+      if (savedAnalysesString) {
+        try {
+          legacyAnalyses = JSON.parse(savedAnalysesString);
+        } catch (err) {
+          // Unreadable, so it could never be imported
+          console.error('Discarding corrupt saved analyses from localStorage:', err);
+          localStorage.removeItem('savedAnalyses');
+        }
+      }
+      if (legacyAnalyses) {
+        try {
+          const response = await fetch('/api/analyses/import', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ analyses: legacyAnalyses }),
+          });
+          if (response.ok) {
+            localStorage.removeItem('savedAnalyses');
+          }
+        } catch (err) {
+          console.error('Error importing saved analyses from localStorage:', err);
+        }
+      }
+      await loadSavedAnalyses();
+    };
+
+    importLegacyAnalyses().catch((err) => {
+      console.error('Error loading saved analyses:', err);
+    });
+    loadSharedReports().catch((err) => {
+      console.error('Error loading shared reports:', err);
+    });
+    loadRubrics().catch((err) => {
+      console.error('Error loading scoring rubrics:', err);
+    });
   }, []);
 
-  const saveAnalysis = () => {
-    if (validatedIdea) {
-      const newAnalysis: SavedAnalysis = {
-        id: Date.now().toString(),
-        date: new Date().toISOString(),
-        idea: validatedIdea.idea,
-        globalScore: validatedIdea.globalScore,
-      };
-      const updatedAnalyses = [...savedAnalyses, newAnalysis];
-      setSavedAnalyses(updatedAnalyses);
-      localStorage.setItem('savedAnalyses', JSON.stringify(updatedAnalyses));
+  const saveAnalysis = async () => {
+    if (!validatedIdea) return;
+
+    try {
+      const response = await fetch('/api/analyses', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ result: validatedIdea, threadId: saveThreadId || undefined }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to save the analysis.');
+      }
+      const saved: SavedAnalysisSummary = await response.json();
+      setSavedAnalyses([...savedAnalyses, saved]);
+      setSaveThreadId(saved.threadId);
+    } catch (err) {
+      console.error('Error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the analysis.');
+    }
+  };
+
+  const openAnalysis = async (id: string) => {
+    try {
+      const response = await fetch(`/api/analyses/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to load the analysis.');
+      }
+      const saved: SavedAnalysis = await response.json();
+      if (saved.result) {
+        const result = toAnalysisResult(saved.result);
+        setValidatedIdea(result);
+        setWeightInputs(result.weights);
+        setPendingSections([]);
+        setSaveThreadId(saved.threadId);
+        setError(null);
+      }
+    } catch (err) {
+      console.error('Error:', err);
+      setError('Failed to load the analysis.');
+    }
+  };
+
+  const deleteAnalysis = async (id: string) => {
+    const response = await fetch(`/api/analyses/${id}`, { method: 'DELETE' });
+    if (response.ok || response.status === 404) {
+      setSavedAnalyses(savedAnalyses.filter(analysis => analysis.id !== id));
+      setSelectedAnalysisIds(selectedAnalysisIds.filter(selectedId => selectedId !== id));
+    } else {
+      setError('Failed to delete the analysis.');
+    }
+  };
+
+  // Exports the analysis on the page, or a saved one when an id is given
+  const downloadExport = async (format: 'docx' | 'pptx' | 'pdf', analysisId?: string) => {
+    try {
+      const response = await fetch('/api/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(analysisId ? { format, analysisId } : { format, result: validatedIdea }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to generate the export.');
+      }
+
+      await saveDownload(response, `analysis.${format}`);
+    } catch (err) {
+      console.error('Error:', err);
+      setError('Failed to generate the export.');
     }
   };
 
-  const deleteAnalysis = (id: string) => {
-    const updatedAnalyses = savedAnalyses.filter(analysis => analysis.id !== id);
-    setSavedAnalyses(updatedAnalyses);
-    localStorage.setItem('savedAnalyses', JSON.stringify(updatedAnalyses));
+  // Full export of the listed analyses, so the current filter carries over like the old CSV did
+  const exportSavedAnalyses = async (format: 'csv' | 'json') => {
+    try {
+      const response = await fetch('/api/analyses/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, ids: sortedAndFilteredAnalyses.map(analysis => analysis.id) }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to export saved analyses.');
+      }
+      await saveDownload(response, `startup_idea_analyses.${format}`);
+    } catch (err) {
+      console.error('Error:', err);
+      setError('Failed to export saved analyses.');
+    }
+  };
+
+  const importSavedAnalyses = async (file: File) => {
+    setImportMessage(null);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The selected file is not valid JSON.');
+      }
+
+      const response = await fetch('/api/analyses/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to import saved analyses.');
+      }
+
+      await loadSavedAnalyses();
+      setImportMessage(`Imported ${result.imported} ${result.imported === 1 ? 'analysis' : 'analyses'}`
+        + (result.duplicates > 0 ? `, skipped ${result.duplicates} already saved` : '')
+        + (result.invalid > 0 ? `, ignored ${result.invalid} invalid` : '')
+        + '.');
+      setError(null);
+    } catch (err) {
+      console.error('Error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import saved analyses.');
+    }
+  };
+
+  const saveDownload = async (response: Response, fallbackName: string) => {
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || fallbackName;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openThread = async (threadId: string) => {
+    try {
+      const response = await fetch(`/api/analyses/threads/${threadId}`);
+      if (!response.ok) {
+        throw new Error('Failed to load the idea thread.');
+      }
+      const data: { revisions: SavedAnalysis[] } = await response.json();
+      setThreadRevisions(data.revisions
+        .filter((revision) => revision.result !== null)
+        .map(({ id, createdAt, revision, result }) => ({ id, createdAt, revision, result: toAnalysisResult(result) })));
+      setError(null);
+    } catch (err) {
+      console.error('Error:', err);
+      setError('Failed to load the idea thread.');
+    }
+  };
+
+  // Latest revision of each thread, for choosing where the next save goes
+  const ideaThreads = Object.values(savedAnalyses.reduce<Record<string, SavedAnalysisSummary>>((threads, analysis) => {
+    const latest = threads[analysis.threadId];
+    if (!latest || analysis.revision > latest.revision) {
+      threads[analysis.threadId] = analysis;
+    }
+    return threads;
+  }, {}));
+
+  const toggleAnalysisSelection = (id: string) => {
+    if (selectedAnalysisIds.includes(id)) {
+      setSelectedAnalysisIds(selectedAnalysisIds.filter(selectedId => selectedId !== id));
+    } else if (selectedAnalysisIds.length < MAX_COMPARED_ANALYSES) {
+      setSelectedAnalysisIds([...selectedAnalysisIds, id]);
+    }
+  };
+
+  const compareAnalyses = async () => {
+    try {
+      const analyses: SavedAnalysis[] = await Promise.all(selectedAnalysisIds.map(async (id) => {
+        const response = await fetch(`/api/analyses/${id}`);
+        if (!response.ok) {
+          throw new Error('Failed to load the analysis.');
+        }
+        return response.json();
+      }));
+
+      setComparedAnalyses(analyses
+        .filter((analysis) => analysis.result !== null)
+        .map(({ id, createdAt, result }) => ({ id, createdAt, result: toAnalysisResult(result) })));
+      setError(null);
+    } catch (err) {
+      console.error('Error:', err);
+      setError('Failed to load the analyses to compare.');
+    }
   };
 
   const sortedAndFilteredAnalyses = savedAnalyses
     .filter(analysis => filterScore === null || analysis.globalScore >= filterScore)
     .sort((a, b) => {
       if (sortField === 'date') {
-        return sortOrder === 'asc' ? a.date.localeCompare(b.date) : b.date.localeCompare(a.date);
+        return sortOrder === 'asc' ? a.createdAt.localeCompare(b.createdAt) : b.createdAt.localeCompare(a.createdAt);
       } else {
         return sortOrder === 'asc' ? a.globalScore - b.globalScore : b.globalScore - a.globalScore;
       }
     });
 
-  const chartData = {
-    labels: ['Tech', 'GTM', 'Confidence'],
-    datasets: [
-      {
-        data: [validatedIdea?.techScore || 0, validatedIdea?.gtmScore || 0, validatedIdea?.confidenceScore || 0],
-        backgroundColor: ['#FF6384', '#36A2EB', '#FFCE56'],
-        hoverBackgroundColor: ['#FF6384', '#36A2EB', '#FFCE56'],
-      },
-    ],
-  };
-
-  const csvData = sortedAndFilteredAnalyses.map(analysis => ({
-    Date: new Date(analysis.date).toLocaleDateString(),
-    Idea: analysis.idea,
-    'Global Score': analysis.globalScore.toFixed(1) + '%',
-  }));
-
-  const marketSizeData = [
-    { label: 'TAM', subLabel: validatedIdea?.investmentMemo.keyMetrics.tam || 'Not available', value: 100 },
-    { label: 'SAM', subLabel: validatedIdea?.investmentMemo.keyMetrics.sam || 'Not available', value: 50 },
-    { label: 'SOM', subLabel: validatedIdea?.investmentMemo.keyMetrics.som || 'Not available', value: 25 },
-  ];
-
   return (
     <div className="container mx-auto px-4 py-8">
-      <h1 className="text-4xl font-bold mb-8 text-center">Startup Idea Validator</h1>
+      <h1 className="text-4xl font-bold mb-2 text-center">Startup Idea Validator</h1>
+      <p className="text-center mb-8">
+        <Link href="/batch" className="text-blue-500">Screening many ideas? Analyze a CSV in one batch</Link>
+      </p>
       
       <div className="max-w-4xl mx-auto">
         <form onSubmit={handleSubmit} className="mb-8">
@@ -412,6 +662,42 @@ export default function Home() {
               required
             />
           </div>
+
+          <div className="mb-4">
+            <label htmlFor="startupStage" className="block text-sm font-medium text-gray-700 mb-2">
+              Startup stage
+            </label>
+            <select
+              id="startupStage"
+              value={startupStage}
+              onChange={(e) => setStartupStage(e.target.value as StartupStage)}
+              className="w-full px-3 py-2 text-gray-700 border rounded-lg focus:outline-none"
+            >
+              {Object.values(STAGE_RUBRICS).map((rubric) => (
+                <option key={rubric.stage} value={rubric.stage}>{rubric.label}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-sm text-gray-600">
+              Judged on: {STAGE_RUBRICS[startupStage].expectations.join('; ')}.
+            </p>
+          </div>
+
+          <div className="mb-4">
+            <label htmlFor="scoringRubric" className="block text-sm font-medium text-gray-700 mb-2">
+              Scoring rubric
+            </label>
+            <select
+              id="scoringRubric"
+              value={selectedRubricId}
+              onChange={(e) => setSelectedRubricId(e.target.value)}
+              className="w-full px-3 py-2 text-gray-700 border rounded-lg focus:outline-none"
+            >
+              <option value="">{STAGE_RUBRICS[startupStage].label} stage criteria</option>
+              {rubrics.map((rubric) => (
+                <option key={rubric.id} value={rubric.id}>{rubric.name} (v{rubric.version})</option>
+              ))}
+            </select>
+          </div>
           
           <div className="mb-4">
             <label htmlFor="pitchDeck" className="block text-sm font-medium text-gray-700 mb-2">
@@ -457,7 +743,7 @@ export default function Home() {
 
         {isLoading && (
           <div className="mb-8">
-            <p className="text-center">Analyzing your startup idea...</p>
+            <p className="text-center">{progressLabel}</p>
             <div className="w-full bg-gray-200 rounded-full h-2.5 dark:bg-gray-700 mt-2">
               <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${progress}%` }}></div>
             </div>
@@ -469,342 +755,143 @@ export default function Home() {
             <h2 className="text-3xl font-bold mb-6 text-center">Your startup idea has been assessed! 🔍</h2>
             <p className="text-center text-gray-600 mb-8">Here's a summary of your startup's potential and actionable steps to move forward.</p>
             
-            {/* Global Score */}
-            <div className="text-center mb-8">
-              <h3 className="text-2xl font-semibold mb-2">Global Score</h3>
-              <p className={`text-4xl font-bold ${getScoreColor(validatedIdea.globalScore)}`}>
-                {validatedIdea.globalScore.toFixed(1)}%
-              </p>
-            </div>
-            
-            {/* Individual Scores */}
-            <div className="flex justify-center items-center mb-8 space-x-4">
-              <div className="text-center">
-                <p className="text-sm text-gray-600">Confidence</p>
-                <p className="text-lg font-semibold">
-                  {validatedIdea.confidenceScore.toFixed(1)}%
-                </p>
-              </div>
-              <div className="text-center">
-                <p className="text-sm text-gray-600">Tech</p>
-                <p className="text-lg font-semibold">
-                  {validatedIdea.techScore.toFixed(1)}%
-                </p>
-              </div>
-              <div className="text-center">
-                <p className="text-sm text-gray-600">GTM</p>
-                <p className="text-lg font-semibold">
-                  {validatedIdea.gtmScore.toFixed(1)}%
-                </p>
-              </div>
-            </div>
-            
-            {/* Score Explanation */}
-            <div className="text-center mb-8">
-              <p className="text-sm text-gray-600">
-                Scores range from 0% to 100%, with 100% being the highest. The global score is a weighted average of Confidence, Tech, and GTM scores.
-              </p>
-            </div>
-
-            <div className="flex justify-between mb-8">
-              <button onClick={handleShare} className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600">
-                Share
-              </button>
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">SWOT Analysis</h3>
-              <p className="text-gray-600 mb-4">SWOT Analysis is a key tool for evaluating your startup's potential. It reveals your Strengths to leverage, Weaknesses to improve, Opportunities to capture, and Threats to watch out for. This clear, strategic insight is crucial for making informed decisions and guiding your business towards success.</p>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="bg-blue-100 p-4 rounded-md">
-                  <h4 className="font-bold text-blue-700 mb-2">Strengths</h4>
-                  {validatedIdea.swot.strengths && validatedIdea.swot.strengths.length > 0 ? (
-                    <ul className="list-disc pl-5">
-                      {validatedIdea.swot.strengths.map((strength, index) => (
-                        <li key={index}>{strength}</li>
-                      ))}
-                    </ul>
-                  ) : (
-                    <p className="text-gray-600">No strengths identified.</p>
-                  )}
-                </div>
-                <div className="bg-yellow-100 p-4 rounded-md">
-                  <h4 className="font-bold text-yellow-700 mb-2">Weaknesses</h4>
-                  {validatedIdea.swot.weaknesses && validatedIdea.swot.weaknesses.length > 0 ? (
-                    <ul className="list-disc pl-5">
-                      {validatedIdea.swot.weaknesses.map((weakness, index) => (
-                        <li key={index}>{weakness}</li>
-                      ))}
-                    </ul>
-                  ) : (
-                    <p className="text-gray-600">No weaknesses identified.</p>
-                  )}
-                </div>
-                <div className="bg-green-100 p-4 rounded-md">
-                  <h4 className="font-bold text-green-700 mb-2">Opportunities</h4>
-                  {validatedIdea.swot.opportunities && validatedIdea.swot.opportunities.length > 0 ? (
-                    <ul className="list-disc pl-5">
-                      {validatedIdea.swot.opportunities.map((opportunity, index) => (
-                        <li key={index}>{opportunity}</li>
-                      ))}
-                    </ul>
-                  ) : (
-                    <p className="text-gray-600">No opportunities identified.</p>
-                  )}
-                </div>
-                <div className="bg-red-100 p-4 rounded-md">
-                  <h4 className="font-bold text-red-700 mb-2">Threats</h4>
-                  {validatedIdea.swot.threats && validatedIdea.swot.threats.length > 0 ? (
-                    <ul className="list-disc pl-5">
-                      {validatedIdea.swot.threats.map((threat, index) => (
-                        <li key={index}>{threat}</li>
-                      ))}
-                    </ul>
-                  ) : (
-                    <p className="text-gray-600">No threats identified.</p>
-                  )}
-                </div>
-              </div>
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">💼 Investment Memo</h3>
-              <p className="text-gray-600 mb-4">A comprehensive analysis of the investment potential for this startup idea.</p>
-              {validatedIdea.pitchDeckProcessed && (
-                <p className="text-indigo-600 mb-4">This analysis includes information from your provided pitch deck.</p>
-              )}
-              <div className="bg-gray-100 p-6 rounded-md">
-                <h4 className="text-xl font-semibold mb-3">Key Metrics</h4>
-                <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
-                  {[
-                    { label: 'TAM', key: 'tam' },
-                    { label: 'SAM', key: 'sam' },
-                    { label: 'SOM', key: 'som' },
-                    { label: 'CAC', key: 'cac' },
-                    { label: 'LTV', key: 'ltv' },
-                    { label: 'Burn Rate', key: 'burnRate' },
-                  ].map(({ label, key }) => (
-                    <div key={key}>
-                      <p className="font-semibold">{label}:</p>
-                      <p>{validatedIdea.investmentMemo.keyMetrics[key as keyof typeof validatedIdea.investmentMemo.keyMetrics] || 'Not available'}</p>
-                    </div>
+            <ScoreSummary result={validatedIdea} pendingSections={pendingSections} />
+
+            {validatedIdea.repairs && validatedIdea.repairs.analysis.length + validatedIdea.repairs.industryAverages.length > 0 && (
+              <details className="text-sm text-gray-600 mb-8">
+                <summary className="cursor-pointer">
+                  Some fields were missing or out of range in the AI response and were repaired automatically.
+                </summary>
+                <ul className="list-disc pl-5 mt-2">
+                  {[...validatedIdea.repairs.analysis, ...validatedIdea.repairs.industryAverages].map((repair, index) => (
+                    <li key={index}>{repair}</li>
                   ))}
-                </div>
-
-                <h4 className="text-xl font-semibold mb-3">Executive Summary</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.summary}</p>
-
-                <h4 className="text-xl font-semibold mb-3">Product Overview</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.productOverview}</p>
-
-                <h4 className="text-xl font-semibold mb-3">Market Opportunity</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.marketOpportunity}</p>
-
-                <h4 className="text-xl font-semibold mb-3">Business Model</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.businessModel}</p>
-
-                <h4 className="text-xl font-semibold mb-3">Competitive Advantage</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.competitiveAdvantage}</p>
-
-                <h4 className="text-xl font-semibold mb-3">Go-to-Market Strategy</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.goToMarketStrategy}</p>
-
-                <h4 className="text-xl font-semibold mb-3">Team Background</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.teamBackground}</p>
-
-                <h4 className="text-xl font-semibold mb-3">Financial Projections</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.financialProjections}</p>
-
-                <h4 className="text-xl font-semibold mb-3">Funding Requirements</h4>
-                <p className="mb-4">{validatedIdea.investmentMemo.fundingRequirements}</p>
+                </ul>
+              </details>
+            )}
+
+            {/* Score Weights */}
+            <div className="bg-gray-100 p-4 rounded-md mb-8">
+              <div className="flex justify-between items-center mb-2">
+                <h4 className="font-semibold">Score Weights</h4>
+                <button
+                  onClick={() => applyWeights(getStageWeights(validatedIdea.startupStage))}
+                  className="text-sm text-blue-500 hover:text-blue-700"
+                >
+                  Reset to {getStageRubric(validatedIdea.startupStage)?.label ?? validatedIdea.startupStage} stage defaults
+                </button>
               </div>
-              <div className="mt-6">
-                <h4 className="text-xl font-semibold mb-3">Market Size Visualization</h4>
-                <div className="flex justify-center">
-                  <NestedCircleChart data={marketSizeData} />
-                </div>
-                <div className="flex justify-center mt-4">
-                  {marketSizeData.map((d, i) => (
-                    <div key={i} className="mx-4 text-center">
-                      <p className="font-semibold">{d.label}</p>
-                      <p>{d.subLabel}</p>
-                    </div>
-                  ))}
+              {[
+                { label: 'Tech', key: 'tech' },
+                { label: 'GTM', key: 'gtm' },
+                { label: 'Confidence (Investment Memo)', key: 'investmentMemo' },
+              ].map(({ label, key }) => (
+                <div key={key} className="flex items-center mb-2">
+                  <label htmlFor={`weight-${key}`} className="w-64 text-sm text-gray-600">{label}</label>
+                  <input
+                    type="range"
+                    id={`weight-${key}`}
+                    min="0"
+                    max="100"
+                    value={Math.round(weightInputs[key as keyof Weights] * 100)}
+                    onChange={(e) => applyWeights({ ...weightInputs, [key]: Number(e.target.value) / 100 })}
+                    className="flex-grow mr-4"
+                  />
+                  <span className="w-12 text-right text-sm font-semibold">
+                    {(validatedIdea.weights[key as keyof Weights] * 100).toFixed(0)}%
+                  </span>
                 </div>
-              </div>
-              
-              <h4 className="text-xl font-semibold mb-3">Key Risks and Mitigation Strategies</h4>
-              <div className="space-y-4">
-                {validatedIdea.investmentMemo.keyRisksAndMitigation && 
-                 validatedIdea.investmentMemo.keyRisksAndMitigation.length > 0 ? (
-                  validatedIdea.investmentMemo.keyRisksAndMitigation.map((item, index) => (
-                    <div key={index} className="bg-white p-4 rounded-md shadow">
-                      <p className="font-semibold text-red-600">Risk: {item.risk}</p>
-                      <p className="mt-2 text-green-600">Mitigation: {item.mitigation}</p>
-                    </div>
-                  ))
-                ) : (
-                  <p className="text-gray-600">No key risks or mitigation strategies identified.</p>
-                )}
-              </div>
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">Critical Questions</h3>
-              {validatedIdea.criticalQuestions && validatedIdea.criticalQuestions.length > 0 ? (
-                <ul className="list-disc pl-5">
-                  {validatedIdea.criticalQuestions.map((question, index) => (
-                    <li key={index} className="mb-2">{question}</li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-gray-600">No critical questions available.</p>
+              ))}
+              {weightInputs.tech + weightInputs.gtm + weightInputs.investmentMemo <= 0 && (
+                <p className="text-sm text-red-600">At least one weight must be greater than zero.</p>
               )}
             </div>
 
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">🔬 Due Diligence: Tech</h3>
-              <p className="text-gray-600 mb-4">Technical aspects to consider and validate for this startup idea.</p>
-              {validatedIdea.dueDiligenceTech && validatedIdea.dueDiligenceTech.length > 0 ? (
-                <ul className="list-disc pl-5">
-                  {validatedIdea.dueDiligenceTech.map((item, index) => (
-                    <li key={index} className="mb-2">
-                      {item.point} - Score: {item.score}%
-                    </li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-gray-600">No technical due diligence points available.</p>
-              )}
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">🚀 Due Diligence: Go-to-Market</h3>
-              <p className="text-gray-600 mb-4">Go-to-market strategies and considerations for this startup idea.</p>
-              {validatedIdea.dueDiligenceGTM && validatedIdea.dueDiligenceGTM.length > 0 ? (
-                <ul className="list-disc pl-5">
-                  {validatedIdea.dueDiligenceGTM.map((item, index) => (
-                    <li key={index} className="mb-2">
-                      {item.point} - Score: {item.score}%
-                    </li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-gray-600">No go-to-market due diligence points available.</p>
-              )}
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">📊 5 Ways to Reach Your Target Market</h3>
-              <p className="text-gray-600 mb-4">Strategies to connect with and engage your target audience, crucial for your startup's market penetration.</p>
-              {validatedIdea.targetMarketStrategies && validatedIdea.targetMarketStrategies.length > 0 ? (
-                <ol className="list-decimal pl-5">
-                  {validatedIdea.targetMarketStrategies.map((strategy, index) => (
-                    <li key={index} className="mb-2">{strategy}</li>
-                  ))}
-                </ol>
-              ) : (
-                <p className="text-gray-600">No target market strategies available.</p>
-              )}
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">🏆 Competition or Similar Players to Keep in Mind</h3>
-              <p className="text-gray-600 mb-4">Understand your competitive landscape. Knowing your rivals helps in positioning your startup strategically in the market.</p>
-              {validatedIdea.competition && validatedIdea.competition.length > 0 ? (
-                <ul className="list-disc pl-5">
-                  {validatedIdea.competition.map((competitor, index) => (
-                    <li key={index} className="mb-2">{competitor}</li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-gray-600">No competition data available.</p>
-              )}
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">🚀 Your Action Plan</h3>
-              <p className="text-gray-600 mb-4">Actionable steps to move your startup idea from concept to reality and bring you closer to 100K MRR🤑.</p>
-              {validatedIdea.actionPlan && validatedIdea.actionPlan.length > 0 ? (
-                <ol className="list-decimal pl-5">
-                  {validatedIdea.actionPlan.map((step, index) => (
-                    <li key={index} className="mb-2">{step}</li>
-                  ))}
-                </ol>
-              ) : (
-                <p className="text-gray-600">No action plan available.</p>
-              )}
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">📈 Market Demand Indicators</h3>
-              <p className="text-gray-600 mb-4">Key signals that suggest a strong market need for your startup. These indicators can guide your strategy to align with market demand.</p>
-              {validatedIdea.marketDemandIndicators && validatedIdea.marketDemandIndicators.length > 0 ? (
-                <ul className="list-disc pl-5">
-                  {validatedIdea.marketDemandIndicators.map((indicator, index) => (
-                    <li key={index} className="mb-2">{indicator}</li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-gray-600">No market demand indicators available.</p>
-              )}
-            </div>
-
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">📚 Frameworks to Evaluate</h3>
-              <p className="text-gray-600 mb-4">Strategic frameworks to critically assess and enhance your startup's approach and business model.</p>
-              {validatedIdea.frameworks && validatedIdea.frameworks.length > 0 ? (
-                <ul className="list-disc pl-5">
-                  {validatedIdea.frameworks.map((framework, index) => (
-                    <li key={index} className="mb-2">{framework}</li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-gray-600">No frameworks available.</p>
-              )}
+            <div className="flex flex-col md:flex-row md:items-center gap-2 mb-8">
+              <button
+                onClick={handleShare}
+                disabled={isLoading}
+                className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600 disabled:opacity-50"
+              >
+                Share
+              </button>
+              <label className="text-gray-600" htmlFor="shareExpiry">link expires</label>
+              <select
+                id="shareExpiry"
+                value={shareExpiresInDays ?? ''}
+                onChange={(e) => setShareExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+                className="p-2 border rounded"
+              >
+                <option value="">Never</option>
+                <option value="1">After 1 day</option>
+                <option value="7">After 7 days</option>
+                <option value="30">After 30 days</option>
+              </select>
+              <span className="text-gray-600 md:ml-4">Hide:</span>
+              {(Object.entries(HIDEABLE_REPORT_SECTIONS) as [HideableReportSection, string][]).map(([section, label]) => (
+                <label key={section} className="flex items-center gap-1 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={shareHiddenSections.includes(section)}
+                    onChange={() => toggleShareHiddenSection(section)}
+                  />
+                  {label}
+                </label>
+              ))}
             </div>
 
-            <div className="mb-8">
-              <h3 className="text-2xl font-semibold mb-4">Score Breakdown</h3>
-              <div className="w-64 h-64 mx-auto">
-                <Pie data={chartData} />
-              </div>
-            </div>
+            <AnalysisReport
+              result={validatedIdea}
+              pendingSections={pendingSections}
+              onApplyBottomUp={(inputs) => setValidatedIdea(applyBottomUpMarketSize(validatedIdea, inputs))}
+              onSaveUnitEconomics={(unitEconomics) => setValidatedIdea({ ...validatedIdea, unitEconomics })}
+            />
 
-            <div className="mt-8">
-              <h3 className="text-2xl font-semibold mb-4">Industry Averages</h3>
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <p className="font-semibold">Average Funding:</p>
-                  <p>{validatedIdea.industryAverages.averageFunding}</p>
-                </div>
-                <div>
-                  <p className="font-semibold">Average Time to Market:</p>
-                  <p>{validatedIdea.industryAverages.averageTimeToMarket}</p>
-                </div>
-                <div>
-                  <p className="font-semibold">Average CAC:</p>
-                  <p>{validatedIdea.industryAverages.averageCAC}</p>
-                </div>
-                <div>
-                  <p className="font-semibold">Average LTV:</p>
-                  <p>{validatedIdea.industryAverages.averageLTV}</p>
-                </div>
-                <div>
-                  <p className="font-semibold">Average Burn Rate:</p>
-                  <p>{validatedIdea.industryAverages.averageBurnRate}</p>
-                </div>
-                <div>
-                  <p className="font-semibold">Average Revenue Growth:</p>
-                  <p>{validatedIdea.industryAverages.averageRevenueGrowth}</p>
-                </div>
-              </div>
+            <div className="flex flex-col md:flex-row md:items-center gap-2 mb-4">
+              <button
+                onClick={saveAnalysis}
+                disabled={isLoading}
+                className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 disabled:opacity-50"
+              >
+                Save Analysis
+              </button>
+              <label className="text-gray-600" htmlFor="saveThread">as</label>
+              <select
+                id="saveThread"
+                value={saveThreadId}
+                onChange={(e) => setSaveThreadId(e.target.value)}
+                className="p-2 border rounded"
+              >
+                <option value="">A new idea thread</option>
+                {ideaThreads.map((thread) => (
+                  <option key={thread.threadId} value={thread.threadId}>
+                    Revision {thread.revision + 1} of &quot;{thread.idea}&quot;
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => downloadExport('pdf')}
+                disabled={isLoading}
+                className="bg-gray-700 text-white px-4 py-2 rounded-md hover:bg-gray-800 disabled:opacity-50 md:ml-auto"
+              >
+                Download Report (PDF)
+              </button>
+              <button
+                onClick={() => downloadExport('docx')}
+                disabled={isLoading}
+                className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600 disabled:opacity-50"
+              >
+                Download Memo (DOCX)
+              </button>
+              <button
+                onClick={() => downloadExport('pptx')}
+                disabled={isLoading}
+                className="bg-orange-500 text-white px-4 py-2 rounded-md hover:bg-orange-600 disabled:opacity-50"
+              >
+                Download Summary (PPTX)
+              </button>
             </div>
 
-            <button onClick={saveAnalysis} className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600 mb-4">
-              Save Analysis
-            </button>
-
             <div className="text-center">
               <a
                 href="https://codeberry.ai"
@@ -818,9 +905,14 @@ export default function Home() {
           </div>
         )}
 
-        {savedAnalyses.length > 0 && (
-          <div className="bg-white rounded-lg shadow-md p-8 mb-8">
-            <h3 className="text-2xl font-semibold mb-4">Saved Analyses</h3>
+        <IdeaLibrary onAnalyze={analyzeLibraryIdea} disabled={isLoading} reloadKey={libraryReloadKey} />
+
+        <RubricManager rubrics={rubrics} onChange={updateRubrics} />
+
+        <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+          <h3 className="text-2xl font-semibold mb-4">Saved Analyses</h3>
+          {savedAnalyses.length > 0 ? (
+            <>
             <div className="mb-4 flex flex-col md:flex-row justify-between items-start md:items-center">
               <div className="mb-4 md:mb-0">
                 <label className="mr-2">Sort by:</label>
@@ -857,8 +949,10 @@ export default function Home() {
               <table className="w-full border-collapse border border-gray-300">
                 <thead>
                   <tr className="bg-gray-100">
+                    <th className="border border-gray-300 p-2">Compare</th>
                     <th className="border border-gray-300 p-2">Date</th>
                     <th className="border border-gray-300 p-2">Idea</th>
+                    <th className="border border-gray-300 p-2">Revision</th>
                     <th className="border border-gray-300 p-2">Score</th>
                     <th className="border border-gray-300 p-2">Action</th>
                   </tr>
@@ -866,12 +960,43 @@ export default function Home() {
                 <tbody>
                   {sortedAndFilteredAnalyses.map((analysis) => (
                     <tr key={analysis.id}>
-                      <td className="border border-gray-300 p-2">{new Date(analysis.date).toLocaleDateString()}</td>
+                      <td className="border border-gray-300 p-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={selectedAnalysisIds.includes(analysis.id)}
+                          onChange={() => toggleAnalysisSelection(analysis.id)}
+                          disabled={!analysis.hasResult
+                            || (!selectedAnalysisIds.includes(analysis.id) && selectedAnalysisIds.length >= MAX_COMPARED_ANALYSES)}
+                        />
+                      </td>
+                      <td className="border border-gray-300 p-2">{new Date(analysis.createdAt).toLocaleDateString()}</td>
                       <td className="border border-gray-300 p-2">{analysis.idea}</td>
+                      <td className="border border-gray-300 p-2">Rev {analysis.revision}</td>
                       <td className="border border-gray-300 p-2" style={{ color: getScoreColor(analysis.globalScore) }}>
                         {analysis.globalScore.toFixed(1)}%
                       </td>
                       <td className="border border-gray-300 p-2">
+                        {analysis.hasResult && (
+                          <>
+                            <button onClick={() => openAnalysis(analysis.id)} className="text-blue-500 mr-2">
+                              Open
+                            </button>
+                            <button onClick={() => downloadExport('pdf', analysis.id)} className="text-blue-500 mr-2">
+                              PDF
+                            </button>
+                            <button onClick={() => downloadExport('docx', analysis.id)} className="text-blue-500 mr-2">
+                              DOCX
+                            </button>
+                            <button onClick={() => downloadExport('pptx', analysis.id)} className="text-blue-500 mr-2">
+                              PPTX
+                            </button>
+                          </>
+                        )}
+                        {savedAnalyses.some(other => other.threadId === analysis.threadId && other.id !== analysis.id) && (
+                          <button onClick={() => openThread(analysis.threadId)} className="text-indigo-500 mr-2">
+                            History
+                          </button>
+                        )}
                         <button onClick={() => deleteAnalysis(analysis.id)} className="text-red-500">
                           Delete
                         </button>
@@ -881,17 +1006,127 @@ export default function Home() {
                 </tbody>
               </table>
             </div>
-            <div className="mt-4">
-              <CSVLink
-                data={csvData}
-                filename={"startup_idea_analyses.csv"}
-                className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600"
-              >
-                Export as CSV
-              </CSVLink>
+            </>
+          ) : (
+            <p className="text-gray-600">No saved analyses yet.</p>
+          )}
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            {savedAnalyses.length > 0 && (
+              <>
+                <button
+                  onClick={compareAnalyses}
+                  disabled={selectedAnalysisIds.length < MIN_COMPARED_ANALYSES}
+                  className="bg-indigo-500 text-white px-4 py-2 rounded-md hover:bg-indigo-600 disabled:opacity-50"
+                >
+                  Compare Selected ({selectedAnalysisIds.length}/{MAX_COMPARED_ANALYSES})
+                </button>
+                <button
+                  onClick={() => exportSavedAnalyses('csv')}
+                  className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600"
+                >
+                  Export as CSV
+                </button>
+                <button
+                  onClick={() => exportSavedAnalyses('json')}
+                  className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600"
+                >
+                  Export as JSON
+                </button>
+              </>
+            )}
+            <label className="bg-gray-200 text-gray-800 px-4 py-2 rounded-md hover:bg-gray-300 cursor-pointer">
+              Import JSON
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importSavedAnalyses(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+          {importMessage && <p className="text-gray-600 mt-2">{importMessage}</p>}
+        </div>
+
+        {sharedReports.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+            <h3 className="text-2xl font-semibold mb-4">Shared Reports</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse border border-gray-300">
+                <thead>
+                  <tr className="bg-gray-100">
+                    <th className="border border-gray-300 p-2">Shared</th>
+                    <th className="border border-gray-300 p-2">Idea</th>
+                    <th className="border border-gray-300 p-2">Expires</th>
+                    <th className="border border-gray-300 p-2">Hidden</th>
+                    <th className="border border-gray-300 p-2">Status</th>
+                    <th className="border border-gray-300 p-2">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sharedReports.map((report) => {
+                    const status = getSharedReportStatus(report);
+                    return (
+                      <tr key={report.id}>
+                        <td className="border border-gray-300 p-2">{new Date(report.createdAt).toLocaleDateString()}</td>
+                        <td className="border border-gray-300 p-2">{report.idea}</td>
+                        <td className="border border-gray-300 p-2">
+                          {report.expiresAt ? new Date(report.expiresAt).toLocaleDateString() : 'Never'}
+                        </td>
+                        <td className="border border-gray-300 p-2">
+                          {report.hiddenSections.map(section => HIDEABLE_REPORT_SECTIONS[section]).join(', ') || 'None'}
+                        </td>
+                        <td className="border border-gray-300 p-2 capitalize">{status}</td>
+                        <td className="border border-gray-300 p-2">
+                          {status === 'active' && (
+                            <>
+                              <a
+                                href={`/report/${report.id}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-500 mr-2"
+                              >
+                                Open
+                              </a>
+                              <button
+                                onClick={() => copyReportUrl(reportUrl(report.id))}
+                                className="text-blue-500 mr-2"
+                              >
+                                Copy Link
+                              </button>
+                              <button
+                                onClick={() => revokeSharedReport(report.id)}
+                                className="text-red-500"
+                              >
+                                Revoke
+                              </button>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
             </div>
           </div>
         )}
+
+        {threadRevisions && threadRevisions.length > 0 && (
+          <IdeaThread
+            key={threadRevisions[0].id}
+            revisions={threadRevisions}
+            onOpenRevision={openAnalysis}
+            onClose={() => setThreadRevisions(null)}
+          />
+        )}
+
+        {comparedAnalyses && (
+          <AnalysisComparison analyses={comparedAnalyses} onClose={() => setComparedAnalyses(null)} />
+        )}
       </div>
     </div>
   );
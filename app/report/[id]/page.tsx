@@ -0,0 +1,57 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import AnalysisReport, { ScoreSummary } from '@/components/AnalysisReport';
+import { getSharedReportStatus } from '@/lib/sharedReport';
+import { getSharedReport } from '../../api/shareStore';
+
+// Expiry and revocation are checked on every request
+export const dynamic = 'force-dynamic';
+
+interface ReportPageProps {
+  params: { id: string };
+}
+
+export async function generateMetadata({ params }: ReportPageProps): Promise<Metadata> {
+  const report = await getSharedReport(params.id);
+  const title = report && getSharedReportStatus(report) === 'active' ? report.result.idea : 'Shared report';
+  return { title: `${title} · Startup Idea Validator`, robots: { index: false, follow: false } };
+}
+
+export default async function ReportPage({ params }: ReportPageProps) {
+  const report = await getSharedReport(params.id);
+  if (!report) notFound();
+
+  const status = getSharedReportStatus(report);
+  if (status !== 'active') {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto bg-white rounded-lg shadow-md p-8 text-center">
+          <h1 className="text-2xl font-bold mb-4">This report is no longer available</h1>
+          <p className="text-gray-600">
+            {status === 'revoked'
+              ? 'The person who shared this link has revoked it.'
+              : `This link expired on ${new Date(report.expiresAt!).toLocaleDateString()}.`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { result } = report;
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-4xl font-bold mb-8 text-center">Startup Idea Validator</h1>
+
+      <div className="max-w-4xl mx-auto bg-white rounded-lg shadow-md p-8 mb-8">
+        <h2 className="text-3xl font-bold mb-2 text-center">{result.idea}</h2>
+        <p className="text-center text-gray-600 mb-8">
+          Shared on {new Date(report.createdAt).toLocaleDateString()}
+          {report.expiresAt && ` · available until ${new Date(report.expiresAt).toLocaleDateString()}`}
+        </p>
+
+        <ScoreSummary result={result} />
+        <AnalysisReport result={result} hiddenSections={report.hiddenSections} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import React from 'react';
+import {
+  Chart as ChartJS,
+  Filler,
+  Legend,
+  LineElement,
+  PointElement,
+  RadialLinearScale,
+  Tooltip,
+} from 'chart.js';
+import { Radar } from 'react-chartjs-2';
+import {
+  AnalysisResult,
+  DueDiligencePoint,
+  getKeyMetricLabels,
+  INVESTMENT_MEMO_SCORE_LABELS,
+  InvestmentMemoScores,
+  SwotAnalysis,
+} from '@/lib/analysis';
+
+ChartJS.register(RadialLinearScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
+export const MIN_COMPARED_ANALYSES = 2;
+export const MAX_COMPARED_ANALYSES = 4;
+
+export interface ComparedAnalysis {
+  id: string;
+  createdAt: string;
+  result: AnalysisResult;
+}
+
+interface AnalysisComparisonProps {
+  analyses: ComparedAnalysis[];
+  onClose: () => void;
+}
+
+const COLORS = ['#FF6384', '#36A2EB', '#FFCE56', '#4BC0C0'];
+
+const SCORE_ROWS: { label: string; key: 'globalScore' | 'techScore' | 'gtmScore' | 'confidenceScore' }[] = [
+  { label: 'Global Score', key: 'globalScore' },
+  { label: 'Tech Score', key: 'techScore' },
+  { label: 'GTM Score', key: 'gtmScore' },
+  { label: 'Confidence Score', key: 'confidenceScore' },
+];
+
+const MEMO_SCORE_ROWS = (Object.entries(INVESTMENT_MEMO_SCORE_LABELS) as [keyof InvestmentMemoScores, string][])
+  .map(([key, label]) => ({ label, key }));
+
+const SWOT_SECTIONS: { label: string; key: keyof SwotAnalysis }[] = [
+  { label: 'Strengths', key: 'strengths' },
+  { label: 'Weaknesses', key: 'weaknesses' },
+  { label: 'Opportunities', key: 'opportunities' },
+  { label: 'Threats', key: 'threats' },
+];
+
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+// An item stands out when none of the other compared analyses lists it
+function isUniqueItem(item: string, index: number, lists: string[][]): boolean {
+  return lists.every((list, listIndex) => listIndex === index
+    || !list.some((other) => normalizeText(other) === normalizeText(item)));
+}
+
+function formatScore(score: number | undefined): string {
+  return typeof score === 'number' ? `${score.toFixed(1)}%` : 'N/A';
+}
+
+// Highlights the best score in a row, but only when the analyses actually differ
+function getBestIndexes(values: (number | undefined)[]): number[] {
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  if (numbers.length < 2 || numbers.every((value) => value === numbers[0])) return [];
+
+  const best = Math.max(...numbers);
+  return values.flatMap((value, index) => (value === best ? [index] : []));
+}
+
+const AnalysisComparison: React.FC<AnalysisComparisonProps> = ({ analyses, onClose }) => {
+  const results = analyses.map(({ result }) => result);
+  const headerCells = analyses.map(({ id, createdAt, result }, index) => (
+    <th key={id} className="border border-gray-300 p-2 text-left align-top">
+      <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: COLORS[index] }} />
+      {result.idea}
+      <p className="text-sm font-normal text-gray-500">{new Date(createdAt).toLocaleDateString()}</p>
+    </th>
+  ));
+
+  const renderScoreRow = (label: string, values: (number | undefined)[]) => {
+    const bestIndexes = getBestIndexes(values);
+    return (
+      <tr key={label}>
+        <td className="border border-gray-300 p-2 font-semibold">{label}</td>
+        {values.map((value, index) => (
+          <td
+            key={analyses[index].id}
+            className={`border border-gray-300 p-2 ${bestIndexes.includes(index) ? 'bg-green-100 font-semibold' : ''}`}
+          >
+            {formatScore(value)}
+          </td>
+        ))}
+      </tr>
+    );
+  };
+
+  const renderDueDiligenceRows = (title: string, pick: (result: AnalysisResult) => DueDiligencePoint[]) => {
+    const points = results.map(pick);
+    const rowCount = Math.max(...points.map((list) => list.length));
+
+    return Array.from({ length: rowCount }, (_, row) => {
+      const bestIndexes = getBestIndexes(points.map((list) => list[row]?.score));
+      return (
+        <tr key={`${title}-${row}`}>
+          <td className="border border-gray-300 p-2 font-semibold">{title} {row + 1}</td>
+          {points.map((list, index) => (
+            <td
+              key={analyses[index].id}
+              className={`border border-gray-300 p-2 align-top ${bestIndexes.includes(index) ? 'bg-green-100' : ''}`}
+            >
+              {list[row] ? (
+                <>
+                  <p>{list[row].point}</p>
+                  <p className="font-semibold">{formatScore(list[row].score)}</p>
+                </>
+              ) : (
+                <span className="text-gray-400">—</span>
+              )}
+            </td>
+          ))}
+        </tr>
+      );
+    });
+  };
+
+  // Deck-only metrics get a row when any of the analyses has them
+  const keyMetricRows = getKeyMetricLabels(Object.assign({}, ...results.map((result) => result.investmentMemo.keyMetrics)));
+
+  const radarData = {
+    labels: ['Tech', 'GTM', 'Confidence', ...MEMO_SCORE_ROWS.map(({ label }) => label)],
+    datasets: results.map((result, index) => ({
+      label: result.idea,
+      data: [
+        result.techScore,
+        result.gtmScore,
+        result.confidenceScore,
+        ...MEMO_SCORE_ROWS.map(({ key }) => result.investmentMemoScores[key] ?? 0),
+      ],
+      backgroundColor: `${COLORS[index]}33`,
+      borderColor: COLORS[index],
+      pointBackgroundColor: COLORS[index],
+    })),
+  };
+
+  const radarOptions = {
+    scales: { r: { min: 0, max: 100, ticks: { stepSize: 20 } } },
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-2xl font-semibold">Compare Analyses</h3>
+        <button onClick={onClose} className="text-gray-600 hover:text-gray-800">
+          Close
+        </button>
+      </div>
+
+      <div className="max-w-xl mx-auto mb-8">
+        <Radar data={radarData} options={radarOptions} />
+      </div>
+
+      <div className="overflow-x-auto mb-8">
+        <table className="w-full border-collapse border border-gray-300">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border border-gray-300 p-2 text-left">Scores</th>
+              {headerCells}
+            </tr>
+          </thead>
+          <tbody>
+            {SCORE_ROWS.map(({ label, key }) => renderScoreRow(label, results.map((result) => result[key])))}
+            {MEMO_SCORE_ROWS.map(({ label, key }) => renderScoreRow(
+              label,
+              results.map((result) => result.investmentMemoScores[key])
+            ))}
+            {renderDueDiligenceRows('Tech', (result) => result.dueDiligenceTech)}
+            {renderDueDiligenceRows('GTM', (result) => result.dueDiligenceGTM)}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="overflow-x-auto mb-8">
+        <table className="w-full border-collapse border border-gray-300">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border border-gray-300 p-2 text-left">Key Metrics</th>
+              {headerCells}
+            </tr>
+          </thead>
+          <tbody>
+            {keyMetricRows.map(([key, label]) => {
+              const values = results.map((result) => result.investmentMemo.keyMetrics[key] || 'N/A');
+              const differs = values.some((value) => normalizeText(value) !== normalizeText(values[0]));
+              return (
+                <tr key={key} className={differs ? 'bg-yellow-50' : ''}>
+                  <td className="border border-gray-300 p-2 font-semibold">{label}</td>
+                  {values.map((value, index) => (
+                    <td key={analyses[index].id} className="border border-gray-300 p-2">{value}</td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse border border-gray-300">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border border-gray-300 p-2 text-left">SWOT</th>
+              {headerCells}
+            </tr>
+          </thead>
+          <tbody>
+            {SWOT_SECTIONS.map(({ label, key }) => {
+              const lists = results.map((result) => result.swot?.[key] ?? []);
+              return (
+                <tr key={key}>
+                  <td className="border border-gray-300 p-2 font-semibold align-top">{label}</td>
+                  {lists.map((list, index) => (
+                    <td key={analyses[index].id} className="border border-gray-300 p-2 align-top">
+                      <ul className="list-disc pl-5">
+                        {list.map((item, itemIndex) => (
+                          <li
+                            key={itemIndex}
+                            className={isUniqueItem(item, index, lists) ? 'bg-yellow-100' : ''}
+                          >
+                            {item}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <p className="text-sm text-gray-500 mt-2">
+          Highlighted SWOT items and key metric rows differ between the compared analyses.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisComparison;
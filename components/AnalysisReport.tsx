@@ -0,0 +1,658 @@
+'use client';
+
+import React from 'react';
+import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
+import { Pie } from 'react-chartjs-2';
+import {
+  BottomUpMarketSize,
+  DECK_SECTION_LABELS,
+  DeckFigureKind,
+  getKeyMetricLabels,
+  INVESTMENT_MEMO_SCORE_LABELS,
+  InvestmentMemo,
+  InvestmentMemoScores,
+  KEY_METRIC_LABELS,
+  ScoreExplanation,
+  UnitEconomicsInputs,
+} from '@/lib/analysis';
+import { formatDeckCitation } from '@/lib/deckSections';
+import { HIDEABLE_REPORT_SECTIONS, HideableReportSection, SharedReportResult } from '@/lib/sharedReport';
+import {
+  checkMarketSizes,
+  getMarketSizeScales,
+  MARKET_SIZE_LEVELS,
+  parseMarketSizes,
+} from '@/lib/marketSize';
+import { formatMoney, moneyValue } from '@/lib/deckFigures';
+import MarketSizeCalculator from '@/components/MarketSizeCalculator';
+import UnitEconomicsPanel from '@/components/UnitEconomicsPanel';
+import SentimentPanel from '@/components/SentimentPanel';
+
+ChartJS.register(ArcElement, Tooltip, Legend);
+
+// Sections still being computed while an analysis streams in
+export type PendingSection = 'scores' | 'industryAverages';
+
+interface NestedCircleChartProps {
+  data: Array<{
+    label: string;
+    // Radius relative to the largest circle, null when the size isn't known
+    scale: number | null;
+  }>;
+}
+
+const MAX_RADIUS = 48;
+
+// Circles sit on a common baseline, each with an area in proportion to its market size
+const NestedCircleChart: React.FC<NestedCircleChartProps> = ({ data }) => {
+  const circles = data
+    .map((item, index) => ({ ...item, index, radius: (item.scale ?? 0) * MAX_RADIUS }))
+    .filter(item => item.scale !== null)
+    .sort((a, b) => b.radius - a.radius);
+
+  return (
+    <svg width="300" height="300" viewBox="0 0 100 100">
+      {circles.map(({ index, radius }) => (
+        <circle
+          key={`circle-${index}`}
+          cx="50"
+          cy={98 - radius}
+          r={radius}
+          fill={`hsl(${index * 120}, 70%, 80%)`}
+          stroke="#fff"
+          strokeWidth="0.5"
+        />
+      ))}
+      {circles.map(({ index, label, radius }) => (
+        // Circles too small to hold their label are named in the legend below
+        radius >= 6 && (
+          <text
+            key={`text-${index}`}
+            x="50"
+            y={98 - radius * 2 + 5}
+            textAnchor="middle"
+            fontSize="4"
+            fill="#333"
+          >
+            {label}
+          </text>
+        )
+      ))}
+    </svg>
+  );
+};
+
+export function getScoreColor(score: number): string {
+  if (score <= 33.33) {
+    return 'text-red-500';
+  } else if (score <= 66.66) {
+    return 'text-yellow-500';
+  } else {
+    return 'text-green-500';
+  }
+}
+
+interface ScoreSummaryProps {
+  result: SharedReportResult;
+  pendingSections?: PendingSection[];
+}
+
+export function ScoreSummary({ result, pendingSections = [] }: ScoreSummaryProps) {
+  return (
+    <>
+      {/* Global Score */}
+      <div className="text-center mb-8">
+        <h3 className="text-2xl font-semibold mb-2">Global Score</h3>
+        {pendingSections.includes('scores') ? (
+          <p className="text-4xl font-bold text-gray-400">…</p>
+        ) : (
+          <p className={`text-4xl font-bold ${getScoreColor(result.globalScore)}`}>
+            {result.globalScore.toFixed(1)}%
+          </p>
+        )}
+      </div>
+
+      {/* Individual Scores */}
+      <div className="flex justify-center items-center mb-8 space-x-4">
+        <div className="text-center">
+          <p className="text-sm text-gray-600">Confidence</p>
+          <p className="text-lg font-semibold">
+            {pendingSections.includes('scores') ? '…' : `${result.confidenceScore.toFixed(1)}%`}
+          </p>
+        </div>
+        <div className="text-center">
+          <p className="text-sm text-gray-600">Tech</p>
+          <p className="text-lg font-semibold">
+            {pendingSections.includes('scores') ? '…' : `${result.techScore.toFixed(1)}%`}
+          </p>
+        </div>
+        <div className="text-center">
+          <p className="text-sm text-gray-600">GTM</p>
+          <p className="text-lg font-semibold">
+            {pendingSections.includes('scores') ? '…' : `${result.gtmScore.toFixed(1)}%`}
+          </p>
+        </div>
+      </div>
+
+      {/* Score Explanation */}
+      <div className="text-center mb-8">
+        <p className="text-sm text-gray-600">
+          Scores range from 0% to 100%, with 100% being the highest. The global score is a weighted average of Confidence, Tech, and GTM scores.
+        </p>
+        {result.stageRubric && (
+          <p className="text-sm text-gray-600 mt-2">
+            Scored with the <span className="font-semibold">{result.stageRubric.label}</span> stage rubric:{' '}
+            {result.stageRubric.expectations.join('; ')}.
+          </p>
+        )}
+        {result.scoringRubric && (
+          <p className="text-sm text-gray-600 mt-2">
+            Tech and GTM scores are weighted by the team rubric{' '}
+            <span className="font-semibold">{result.scoringRubric.name}</span> (version {result.scoringRubric.version}).
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
+
+interface AnalysisReportProps {
+  result: SharedReportResult;
+  pendingSections?: PendingSection[];
+  hiddenSections?: HideableReportSection[];
+  // Offers the bottom-up market size calculator; its figures replace the SAM and SOM
+  onApplyBottomUp?: (inputs: BottomUpMarketSize) => void;
+  // Makes the unit economics editable; otherwise only inputs saved with the analysis are shown
+  onSaveUnitEconomics?: (inputs: UnitEconomicsInputs) => void;
+}
+
+/**
+ * The read-only sections of an analysis, from the SWOT to the industry
+ * averages. Shared by the home page and the shared report page.
+ */
+export default function AnalysisReport({
+  result,
+  pendingSections = [],
+  hiddenSections = [],
+  onApplyBottomUp,
+  onSaveUnitEconomics,
+}: AnalysisReportProps) {
+  const slides = (result.pitchDeckStats?.slides ?? 0) > 0;
+  const classifiedPages = (result.deckSections ?? []).filter(page => page.section !== null);
+
+  const memoHeading = (label: string, field: keyof InvestmentMemo) => {
+    const citation = result.memoCitations?.[field];
+    return (
+      <h4 className="text-xl font-semibold mb-3">
+        {label}
+        {citation && citation.length > 0 && (
+          <span className="ml-2 text-sm font-normal text-indigo-600">Source: {formatDeckCitation(citation, slides)}</span>
+        )}
+      </h4>
+    );
+  };
+
+  // Where a figure stated in the deck came from, as written there
+  const figureSource = (kind: DeckFigureKind) => {
+    const figure = result.deckFigures?.find(f => f.kind === kind);
+    return figure ? (
+      <p className="text-xs text-indigo-600">
+        {formatDeckCitation([figure.page], slides)}: &ldquo;{figure.text}&rdquo;
+      </p>
+    ) : null;
+  };
+
+  // A score that expands to the rationale for it and the deck quotes backing it
+  const explainedScore = (label: React.ReactNode, score: number, explanation?: Partial<ScoreExplanation>) => {
+    const evidence = explanation?.evidence ?? [];
+    if (!explanation?.rationale && evidence.length === 0) {
+      return <>{label} - Score: {score}%</>;
+    }
+    return (
+      <details>
+        <summary className="cursor-pointer">{label} - Score: {score}%</summary>
+        <div className="mt-1 ml-4">
+          {explanation?.rationale && <p className="text-sm text-gray-700">{explanation.rationale}</p>}
+          {evidence.map((item, index) => (
+            <p key={index} className="text-xs text-indigo-600 mt-1">
+              {formatDeckCitation([item.page], slides)}: &ldquo;{item.quote}&rdquo;
+            </p>
+          ))}
+        </div>
+      </details>
+    );
+  };
+
+  const chartData = {
+    labels: ['Tech', 'GTM', 'Confidence'],
+    datasets: [
+      {
+        data: [result.techScore || 0, result.gtmScore || 0, result.confidenceScore || 0],
+        backgroundColor: ['#FF6384', '#36A2EB', '#FFCE56'],
+        hoverBackgroundColor: ['#FF6384', '#36A2EB', '#FFCE56'],
+      },
+    ],
+  };
+
+  const { keyMetrics } = result.investmentMemo;
+  const marketSizes = parseMarketSizes(keyMetrics);
+  const marketSizeScales = getMarketSizeScales(marketSizes);
+  const marketSizeWarnings = checkMarketSizes(keyMetrics, marketSizes);
+  const marketSizeData = MARKET_SIZE_LEVELS.map(level => {
+    const size = marketSizes[level];
+    const tam = marketSizes.tam;
+    return {
+      label: KEY_METRIC_LABELS[level],
+      subLabel: keyMetrics[level] || 'Not available',
+      scale: marketSizeScales[level],
+      // Only meaningful when both are in the same currency, which the warnings cover otherwise
+      share: level !== 'tam' && size && tam && moneyValue(tam) > 0
+        ? `${Number(((moneyValue(size) / moneyValue(tam)) * 100).toFixed(2))}% of TAM`
+        : null,
+    };
+  });
+  const bottomUp = result.bottomUpMarketSize;
+
+  return (
+    <>
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">SWOT Analysis</h3>
+        <p className="text-gray-600 mb-4">SWOT Analysis is a key tool for evaluating your startup's potential. It reveals your Strengths to leverage, Weaknesses to improve, Opportunities to capture, and Threats to watch out for. This clear, strategic insight is crucial for making informed decisions and guiding your business towards success.</p>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-blue-100 p-4 rounded-md">
+            <h4 className="font-bold text-blue-700 mb-2">Strengths</h4>
+            {result.swot.strengths && result.swot.strengths.length > 0 ? (
+              <ul className="list-disc pl-5">
+                {result.swot.strengths.map((strength, index) => (
+                  <li key={index}>{strength}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-600">No strengths identified.</p>
+            )}
+          </div>
+          <div className="bg-yellow-100 p-4 rounded-md">
+            <h4 className="font-bold text-yellow-700 mb-2">Weaknesses</h4>
+            {result.swot.weaknesses && result.swot.weaknesses.length > 0 ? (
+              <ul className="list-disc pl-5">
+                {result.swot.weaknesses.map((weakness, index) => (
+                  <li key={index}>{weakness}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-600">No weaknesses identified.</p>
+            )}
+          </div>
+          <div className="bg-green-100 p-4 rounded-md">
+            <h4 className="font-bold text-green-700 mb-2">Opportunities</h4>
+            {result.swot.opportunities && result.swot.opportunities.length > 0 ? (
+              <ul className="list-disc pl-5">
+                {result.swot.opportunities.map((opportunity, index) => (
+                  <li key={index}>{opportunity}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-600">No opportunities identified.</p>
+            )}
+          </div>
+          <div className="bg-red-100 p-4 rounded-md">
+            <h4 className="font-bold text-red-700 mb-2">Threats</h4>
+            {result.swot.threats && result.swot.threats.length > 0 ? (
+              <ul className="list-disc pl-5">
+                {result.swot.threats.map((threat, index) => (
+                  <li key={index}>{threat}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-600">No threats identified.</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <SentimentPanel result={result} />
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">💼 Investment Memo</h3>
+        <p className="text-gray-600 mb-4">A comprehensive analysis of the investment potential for this startup idea.</p>
+        {result.pitchDeckProcessed && (
+          <p className="text-indigo-600 mb-4">This analysis includes information from your provided pitch deck.</p>
+        )}
+        {result.pitchDeckStats && (
+          <p className="text-sm text-gray-600 mb-4">
+            Extracted {result.pitchDeckStats.characters.toLocaleString()} characters from{' '}
+            {result.pitchDeckStats.slides > 0
+              ? `${result.pitchDeckStats.slides} slides`
+              : `${result.pitchDeckStats.pages} pages`}.
+            {result.pitchDeckStats.ocrPages.length > 0 && (
+              <>
+                {' '}OCR was used on {result.pitchDeckStats.slides > 0 ? 'slides' : 'pages'}{' '}
+                {result.pitchDeckStats.ocrPages
+                  .map(page => `${page.number} (${page.confidence}% confidence)`)
+                  .join(', ')}.
+              </>
+            )}
+          </p>
+        )}
+        {classifiedPages.length > 0 && (
+          <p className="text-sm text-gray-600 mb-4">
+            Deck sections:{' '}
+            {classifiedPages
+              .map(page => `${formatDeckCitation([page.number], slides)} ${DECK_SECTION_LABELS[page.section!]}`)
+              .join(' · ')}
+          </p>
+        )}
+        {hiddenSections.length > 0 && (
+          <p className="text-sm text-gray-600 mb-4">
+            Not included in this report: {hiddenSections.map(section => HIDEABLE_REPORT_SECTIONS[section]).join(', ')}.
+          </p>
+        )}
+        <div className="bg-gray-100 p-6 rounded-md">
+          {!hiddenSections.includes('keyMetrics') && (
+            <>
+              <h4 className="text-xl font-semibold mb-3">Key Metrics</h4>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+                {getKeyMetricLabels(result.investmentMemo.keyMetrics).map(([key, label]) => (
+                  <div key={key}>
+                    <p className="font-semibold">{label}:</p>
+                    <p>{result.investmentMemo.keyMetrics[key] || 'Not available'}</p>
+                    {figureSource(key as DeckFigureKind)}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {memoHeading('Executive Summary', 'summary')}
+          <p className="mb-4">{result.investmentMemo.summary}</p>
+
+          {memoHeading('Product Overview', 'productOverview')}
+          <p className="mb-4">{result.investmentMemo.productOverview}</p>
+
+          {memoHeading('Market Opportunity', 'marketOpportunity')}
+          <p className="mb-4">{result.investmentMemo.marketOpportunity}</p>
+
+          {memoHeading('Business Model', 'businessModel')}
+          <p className="mb-4">{result.investmentMemo.businessModel}</p>
+
+          {memoHeading('Competitive Advantage', 'competitiveAdvantage')}
+          <p className="mb-4">{result.investmentMemo.competitiveAdvantage}</p>
+
+          {memoHeading('Go-to-Market Strategy', 'goToMarketStrategy')}
+          <p className="mb-4">{result.investmentMemo.goToMarketStrategy}</p>
+
+          {memoHeading('Team Background', 'teamBackground')}
+          <p className="mb-4">{result.investmentMemo.teamBackground}</p>
+
+          {!hiddenSections.includes('financialProjections') && (
+            <>
+              {memoHeading('Financial Projections', 'financialProjections')}
+              <p className="mb-4">{result.investmentMemo.financialProjections}</p>
+            </>
+          )}
+
+          {!hiddenSections.includes('fundingRequirements') && (
+            <>
+              {memoHeading('Funding Requirements', 'fundingRequirements')}
+              <p>{result.investmentMemo.fundingRequirements}</p>
+              <div className="mb-4">{figureSource('raise')}</div>
+            </>
+          )}
+        </div>
+        {!hiddenSections.includes('keyMetrics') && (
+          <div className="mt-6">
+            <h4 className="text-xl font-semibold mb-3">Market Size Visualization</h4>
+            {marketSizeData.some(d => d.scale !== null) ? (
+              <div className="flex justify-center">
+                <NestedCircleChart data={marketSizeData} />
+              </div>
+            ) : (
+              <p className="text-gray-600 text-center">The market sizes couldn&apos;t be read as amounts.</p>
+            )}
+            <div className="flex justify-center mt-4">
+              {marketSizeData.map((d, i) => (
+                <div key={i} className="mx-4 text-center">
+                  <p className="font-semibold">
+                    <span className="inline-block w-3 h-3 rounded-full mr-1" style={{ backgroundColor: `hsl(${i * 120}, 70%, 80%)` }}></span>
+                    {d.label}
+                  </p>
+                  <p>{d.subLabel}</p>
+                  {d.share && <p className="text-sm text-gray-600">{d.share}</p>}
+                </div>
+              ))}
+            </div>
+            {marketSizeWarnings.length > 0 && (
+              <ul className="list-disc pl-5 mt-4 text-sm text-yellow-700">
+                {marketSizeWarnings.map((warning, index) => (
+                  <li key={index}>{warning}</li>
+                ))}
+              </ul>
+            )}
+            {bottomUp && (
+              <p className="text-sm text-gray-600 mt-4">
+                SAM and SOM are sized bottom-up: {bottomUp.customers.toLocaleString()} customers ×{' '}
+                {formatMoney(bottomUp.annualPrice, bottomUp.currency)} a year, {bottomUp.penetration}% penetration.
+              </p>
+            )}
+            {onApplyBottomUp && (
+              <MarketSizeCalculator
+                key={result.idea}
+                initial={bottomUp}
+                defaultCurrency={marketSizes.tam?.currency ?? 'USD'}
+                onApply={onApplyBottomUp}
+              />
+            )}
+          </div>
+        )}
+
+        <h4 className="text-xl font-semibold mb-3">Key Risks and Mitigation Strategies</h4>
+        <div className="space-y-4">
+          {result.investmentMemo.keyRisksAndMitigation && 
+           result.investmentMemo.keyRisksAndMitigation.length > 0 ? (
+            result.investmentMemo.keyRisksAndMitigation.map((item, index) => (
+              <div key={index} className="bg-white p-4 rounded-md shadow">
+                <p className="font-semibold text-red-600">Risk: {item.risk}</p>
+                <p className="mt-2 text-green-600">Mitigation: {item.mitigation}</p>
+              </div>
+            ))
+          ) : (
+            <p className="text-gray-600">No key risks or mitigation strategies identified.</p>
+          )}
+        </div>
+
+        <h4 className="text-xl font-semibold mt-6 mb-3">Investment Memo Scores</h4>
+        <ul className="list-disc pl-5">
+          {(Object.entries(INVESTMENT_MEMO_SCORE_LABELS) as [keyof InvestmentMemoScores, string][])
+            .filter(([key]) => result.investmentMemoScores[key] !== undefined)
+            .map(([key, label]) => (
+              <li key={key} className="mb-2">
+                {explainedScore(label, result.investmentMemoScores[key]!, result.investmentMemoScoreExplanations?.[key])}
+              </li>
+            ))}
+        </ul>
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">Critical Questions</h3>
+        {result.criticalQuestions && result.criticalQuestions.length > 0 ? (
+          <ul className="list-disc pl-5">
+            {result.criticalQuestions.map((question, index) => (
+              <li key={index} className="mb-2">{question}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No critical questions available.</p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">🔬 Due Diligence: Tech</h3>
+        <p className="text-gray-600 mb-4">Technical aspects to consider and validate for this startup idea.</p>
+        {result.dueDiligenceTech && result.dueDiligenceTech.length > 0 ? (
+          <ul className="list-disc pl-5">
+            {result.dueDiligenceTech.map((item, index) => (
+              <li key={index} className="mb-2">
+                {explainedScore(
+                  <>
+                    {item.criterion && (
+                      <span className="font-semibold">
+                        {item.criterion}{item.weight !== undefined && ` (weight ${item.weight})`}:{' '}
+                      </span>
+                    )}
+                    {item.point}
+                  </>,
+                  item.score,
+                  item
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No technical due diligence points available.</p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">🚀 Due Diligence: Go-to-Market</h3>
+        <p className="text-gray-600 mb-4">Go-to-market strategies and considerations for this startup idea.</p>
+        {result.dueDiligenceGTM && result.dueDiligenceGTM.length > 0 ? (
+          <ul className="list-disc pl-5">
+            {result.dueDiligenceGTM.map((item, index) => (
+              <li key={index} className="mb-2">
+                {explainedScore(
+                  <>
+                    {item.criterion && (
+                      <span className="font-semibold">
+                        {item.criterion}{item.weight !== undefined && ` (weight ${item.weight})`}:{' '}
+                      </span>
+                    )}
+                    {item.point}
+                  </>,
+                  item.score,
+                  item
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No go-to-market due diligence points available.</p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">📊 5 Ways to Reach Your Target Market</h3>
+        <p className="text-gray-600 mb-4">Strategies to connect with and engage your target audience, crucial for your startup's market penetration.</p>
+        {result.targetMarketStrategies && result.targetMarketStrategies.length > 0 ? (
+          <ol className="list-decimal pl-5">
+            {result.targetMarketStrategies.map((strategy, index) => (
+              <li key={index} className="mb-2">{strategy}</li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-gray-600">No target market strategies available.</p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">🏆 Competition or Similar Players to Keep in Mind</h3>
+        <p className="text-gray-600 mb-4">Understand your competitive landscape. Knowing your rivals helps in positioning your startup strategically in the market.</p>
+        {result.competition && result.competition.length > 0 ? (
+          <ul className="list-disc pl-5">
+            {result.competition.map((competitor, index) => (
+              <li key={index} className="mb-2">{competitor}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No competition data available.</p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">🚀 Your Action Plan</h3>
+        <p className="text-gray-600 mb-4">Actionable steps to move your startup idea from concept to reality and bring you closer to 100K MRR🤑.</p>
+        {result.actionPlan && result.actionPlan.length > 0 ? (
+          <ol className="list-decimal pl-5">
+            {result.actionPlan.map((step, index) => (
+              <li key={index} className="mb-2">{step}</li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-gray-600">No action plan available.</p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">📈 Market Demand Indicators</h3>
+        <p className="text-gray-600 mb-4">Key signals that suggest a strong market need for your startup. These indicators can guide your strategy to align with market demand.</p>
+        {result.marketDemandIndicators && result.marketDemandIndicators.length > 0 ? (
+          <ul className="list-disc pl-5">
+            {result.marketDemandIndicators.map((indicator, index) => (
+              <li key={index} className="mb-2">{indicator}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No market demand indicators available.</p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">📚 Frameworks to Evaluate</h3>
+        <p className="text-gray-600 mb-4">Strategic frameworks to critically assess and enhance your startup's approach and business model.</p>
+        {result.frameworks && result.frameworks.length > 0 ? (
+          <ul className="list-disc pl-5">
+            {result.frameworks.map((framework, index) => (
+              <li key={index} className="mb-2">{framework}</li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-gray-600">No frameworks available.</p>
+        )}
+      </div>
+
+      <div className="mb-8">
+        <h3 className="text-2xl font-semibold mb-4">Score Breakdown</h3>
+        <div className="w-64 h-64 mx-auto">
+          <Pie data={chartData} />
+        </div>
+      </div>
+
+      <div className="mt-8">
+        <h3 className="text-2xl font-semibold mb-4">Industry Averages</h3>
+        {pendingSections.includes('industryAverages') ? (
+          <p className="text-gray-600">Gathering industry averages...</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <p className="font-semibold">Average Funding:</p>
+              <p>{result.industryAverages.averageFunding}</p>
+            </div>
+            <div>
+              <p className="font-semibold">Average Time to Market:</p>
+              <p>{result.industryAverages.averageTimeToMarket}</p>
+            </div>
+            <div>
+              <p className="font-semibold">Average CAC:</p>
+              <p>{result.industryAverages.averageCAC}</p>
+            </div>
+            <div>
+              <p className="font-semibold">Average LTV:</p>
+              <p>{result.industryAverages.averageLTV}</p>
+            </div>
+            <div>
+              <p className="font-semibold">Average Burn Rate:</p>
+              <p>{result.industryAverages.averageBurnRate}</p>
+            </div>
+            <div>
+              <p className="font-semibold">Average Revenue Growth:</p>
+              <p>{result.industryAverages.averageRevenueGrowth}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!pendingSections.includes('industryAverages') && !hiddenSections.includes('keyMetrics') && (
+        <UnitEconomicsPanel key={result.idea} result={result} onSave={onSaveUnitEconomics} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { filterLibraryIdeas, LibraryIdea, LibraryIdeaFields } from '@/lib/ideaLibrary';
+import { getScoreColor } from '@/components/AnalysisReport';
+
+interface IdeaLibraryProps {
+  onAnalyze: (idea: LibraryIdea) => void;
+  // Disables "Analyze" while another analysis is running
+  disabled?: boolean;
+  // Changing it reloads the library, e.g. to pick up the score of a finished analysis
+  reloadKey?: number;
+}
+
+interface IdeaFormState {
+  title: string;
+  description: string;
+  keywords: string;
+}
+
+const EMPTY_FORM: IdeaFormState = { title: '', description: '', keywords: '' };
+
+function toFormState(idea: LibraryIdeaFields): IdeaFormState {
+  return { title: idea.title, description: idea.description, keywords: idea.keywords.join(', ') };
+}
+
+function toFields(form: IdeaFormState): LibraryIdeaFields {
+  return { title: form.title, description: form.description, keywords: form.keywords.split(',') };
+}
+
+function IdeaForm({ initial, submitLabel, onSubmit, onCancel }: {
+  initial: IdeaFormState;
+  submitLabel: string;
+  onSubmit: (fields: LibraryIdeaFields) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(initial);
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(toFields(form));
+      }}
+      className="space-y-2"
+    >
+      <input
+        value={form.title}
+        onChange={(e) => setForm({ ...form, title: e.target.value })}
+        placeholder="Title"
+        className="w-full p-2 border rounded"
+        required
+      />
+      <textarea
+        value={form.description}
+        onChange={(e) => setForm({ ...form, description: e.target.value })}
+        placeholder="Description"
+        className="w-full p-2 border rounded"
+        rows={3}
+      />
+      <input
+        value={form.keywords}
+        onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+        placeholder="Keywords, separated by commas"
+        className="w-full p-2 border rounded"
+      />
+      <div className="flex gap-2">
+        <button type="submit" className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600">
+          {submitLabel}
+        </button>
+        <button type="button" onClick={onCancel} className="text-gray-600 px-4 py-2">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Searchable catalogue of ideas to analyze: the built-in ideas plus the
+ * team's own, each with the score of its latest analysis.
+ */
+export default function IdeaLibrary({ onAnalyze, disabled = false, reloadKey = 0 }: IdeaLibraryProps) {
+  const [ideas, setIdeas] = useState<LibraryIdea[]>([]);
+  const [search, setSearch] = useState('');
+  const [selectedKeywords, setSelectedKeywords] = useState<string[]>([]);
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/library')
+      .then((response) => {
+        if (!response.ok) throw new Error('Failed to load the idea library.');
+        return response.json();
+      })
+      .then((data) => setIdeas(data.ideas))
+      .catch((err) => {
+        console.error('Error loading idea library:', err);
+        setError('Failed to load the idea library.');
+      });
+  }, [reloadKey]);
+
+  const keywords = Array.from(new Set(ideas.flatMap((idea) => idea.keywords)))
+    .sort((a, b) => a.localeCompare(b));
+  const visibleIdeas = filterLibraryIdeas(ideas, search, selectedKeywords);
+
+  const toggleKeyword = (keyword: string) => {
+    setSelectedKeywords(selectedKeywords.includes(keyword)
+      ? selectedKeywords.filter((selected) => selected !== keyword)
+      : [...selectedKeywords, keyword]);
+  };
+
+  const saveIdea = async (fields: LibraryIdeaFields, id?: string) => {
+    try {
+      const response = await fetch(id ? `/api/library/${id}` : '/api/library', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save the idea.');
+      }
+
+      const saved: LibraryIdea = data;
+      setIdeas(id ? ideas.map((idea) => idea.id === id ? saved : idea) : [...ideas, saved]);
+      setIsAdding(false);
+      setEditingId(null);
+      setError(null);
+    } catch (err) {
+      console.error('Error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the idea.');
+    }
+  };
+
+  const deleteIdea = async (id: string) => {
+    const response = await fetch(`/api/library/${id}`, { method: 'DELETE' });
+    if (response.ok || response.status === 404) {
+      setIdeas(ideas.filter((idea) => idea.id !== id));
+    } else {
+      setError('Failed to delete the idea.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-2xl font-semibold">💡 Idea Library</h3>
+        {!isAdding && (
+          <button onClick={() => setIsAdding(true)} className="text-blue-500">
+            Add an idea
+          </button>
+        )}
+      </div>
+
+      {isAdding && (
+        <div className="bg-gray-100 p-4 rounded-md mb-4">
+          <IdeaForm
+            initial={EMPTY_FORM}
+            submitLabel="Add to Library"
+            onSubmit={(fields) => saveIdea(fields)}
+            onCancel={() => setIsAdding(false)}
+          />
+        </div>
+      )}
+
+      <input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search ideas"
+        className="w-full p-2 border rounded mb-2"
+      />
+      <div className="flex flex-wrap gap-2 mb-4">
+        {keywords.map((keyword) => (
+          <button
+            key={keyword}
+            onClick={() => toggleKeyword(keyword)}
+            className={`text-sm px-2 py-1 rounded-full ${
+              selectedKeywords.includes(keyword) ? 'bg-blue-500 text-white' : 'bg-gray-200 text-gray-700'
+            }`}
+          >
+            {keyword}
+          </button>
+        ))}
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {visibleIdeas.length === 0 ? (
+        <p className="text-gray-600">No ideas match your search.</p>
+      ) : (
+        <div className="space-y-4">
+          {visibleIdeas.map((idea) => (
+            <div key={idea.id} className="border border-gray-300 rounded-md p-4">
+              {editingId === idea.id ? (
+                <IdeaForm
+                  initial={toFormState(idea)}
+                  submitLabel="Save"
+                  onSubmit={(fields) => saveIdea(fields, idea.id)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <>
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <h4 className="font-semibold">
+                        {idea.title}
+                        {!idea.builtIn && <span className="ml-2 text-xs text-indigo-600">Team</span>}
+                      </h4>
+                      <p className="text-gray-600">{idea.description}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      {idea.latestScore ? (
+                        <>
+                          <p className={`text-xl font-bold ${getScoreColor(idea.latestScore.globalScore)}`}>
+                            {idea.latestScore.globalScore.toFixed(1)}%
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(idea.latestScore.analyzedAt).toLocaleDateString()}
+                          </p>
+                        </>
+                      ) : (
+                        <p className="text-sm text-gray-500">Not analyzed yet</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    {idea.keywords.map((keyword) => (
+                      <button
+                        key={keyword}
+                        onClick={() => toggleKeyword(keyword)}
+                        className="text-xs bg-gray-100 text-gray-700 px-2 py-1 rounded-full"
+                      >
+                        {keyword}
+                      </button>
+                    ))}
+                    <div className="ml-auto flex gap-2">
+                      {!idea.builtIn && (
+                        <>
+                          <button onClick={() => setEditingId(idea.id)} className="text-blue-500">
+                            Edit
+                          </button>
+                          <button onClick={() => deleteIdea(idea.id)} className="text-red-500">
+                            Delete
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => onAnalyze(idea)}
+                        disabled={disabled}
+                        className="bg-blue-500 text-white px-3 py-1 rounded-md hover:bg-blue-600 disabled:opacity-50"
+                      >
+                        Analyze this idea
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  CategoryScale,
+  Chart as ChartJS,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { AnalysisResult, INVESTMENT_MEMO_SECTION_LABELS, SwotAnalysis } from '@/lib/analysis';
+import { diffAnalyses, DueDiligenceDiff, ListDiff } from '@/lib/analysisDiff';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+export interface ThreadRevision {
+  id: string;
+  createdAt: string;
+  revision: number;
+  result: AnalysisResult;
+}
+
+interface IdeaThreadProps {
+  revisions: ThreadRevision[];
+  onOpenRevision: (id: string) => void;
+  onClose: () => void;
+}
+
+const SCORE_SERIES: { label: string; key: 'globalScore' | 'techScore' | 'gtmScore' | 'confidenceScore'; color: string }[] = [
+  { label: 'Global Score', key: 'globalScore', color: '#4F46E5' },
+  { label: 'Tech Score', key: 'techScore', color: '#FF6384' },
+  { label: 'GTM Score', key: 'gtmScore', color: '#36A2EB' },
+  { label: 'Confidence Score', key: 'confidenceScore', color: '#FFCE56' },
+];
+
+const SWOT_LABELS: Record<keyof SwotAnalysis, string> = {
+  strengths: 'Strengths',
+  weaknesses: 'Weaknesses',
+  opportunities: 'Opportunities',
+  threats: 'Threats',
+};
+
+function hasListChanges(diff: ListDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0;
+}
+
+const ListChanges: React.FC<{ title: string; diff: ListDiff }> = ({ title, diff }) => {
+  if (!hasListChanges(diff)) return null;
+
+  return (
+    <div className="mb-4">
+      <h5 className="font-semibold mb-1">{title}</h5>
+      <ul className="space-y-1">
+        {diff.removed.map((item, index) => (
+          <li key={`removed-${index}`} className="bg-red-50 text-red-700 px-2 py-1 rounded">− {item}</li>
+        ))}
+        {diff.added.map((item, index) => (
+          <li key={`added-${index}`} className="bg-green-50 text-green-700 px-2 py-1 rounded">+ {item}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const DueDiligenceChanges: React.FC<{ title: string; diff: DueDiligenceDiff }> = ({ title, diff }) => {
+  if (!hasListChanges(diff) && diff.rescored.length === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <ListChanges title={title} diff={diff} />
+      {diff.rescored.length > 0 && (
+        <ul className="space-y-1">
+          {diff.rescored.map((change, index) => (
+            <li key={index} className="bg-yellow-50 px-2 py-1 rounded">
+              {change.point}: {change.before}% → {change.after}%
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const IdeaThread: React.FC<IdeaThreadProps> = ({ revisions, onOpenRevision, onClose }) => {
+  const [fromIndex, setFromIndex] = useState(Math.max(revisions.length - 2, 0));
+  const [toIndex, setToIndex] = useState(revisions.length - 1);
+
+  const chartData = {
+    labels: revisions.map(({ revision }) => `Rev ${revision}`),
+    datasets: SCORE_SERIES.map(({ label, key, color }) => ({
+      label,
+      data: revisions.map(({ result }) => result[key]),
+      borderColor: color,
+      backgroundColor: color,
+      tension: 0.2,
+    })),
+  };
+
+  const chartOptions = {
+    scales: { y: { min: 0, max: 100 } },
+  };
+
+  const diff = revisions.length > 1 && fromIndex !== toIndex
+    ? diffAnalyses(revisions[fromIndex].result, revisions[toIndex].result)
+    : null;
+  const hasChanges = diff !== null && (
+    Object.values(diff.swot).some(hasListChanges)
+    || hasListChanges(diff.criticalQuestions)
+    || diff.memoSections.length > 0
+    || hasListChanges(diff.dueDiligenceTech) || diff.dueDiligenceTech.rescored.length > 0
+    || hasListChanges(diff.dueDiligenceGTM) || diff.dueDiligenceGTM.rescored.length > 0
+  );
+
+  const revisionSelect = (value: number, onChange: (index: number) => void) => (
+    <select value={value} onChange={(e) => onChange(Number(e.target.value))} className="p-2 border rounded">
+      {revisions.map(({ id, revision, createdAt }, index) => (
+        <option key={id} value={index}>
+          Rev {revision} ({new Date(createdAt).toLocaleDateString()})
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-2xl font-semibold">Revision History</h3>
+        <button onClick={onClose} className="text-gray-600 hover:text-gray-800">
+          Close
+        </button>
+      </div>
+      <p className="text-gray-600 mb-4">{revisions[revisions.length - 1].result.idea}</p>
+
+      <div className="mb-8">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+
+      <div className="overflow-x-auto mb-8">
+        <table className="w-full border-collapse border border-gray-300">
+          <thead>
+            <tr className="bg-gray-100">
+              <th className="border border-gray-300 p-2">Revision</th>
+              <th className="border border-gray-300 p-2">Date</th>
+              {SCORE_SERIES.map(({ label }) => (
+                <th key={label} className="border border-gray-300 p-2">{label}</th>
+              ))}
+              <th className="border border-gray-300 p-2">Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            {revisions.map(({ id, revision, createdAt, result }) => (
+              <tr key={id}>
+                <td className="border border-gray-300 p-2">Rev {revision}</td>
+                <td className="border border-gray-300 p-2">{new Date(createdAt).toLocaleDateString()}</td>
+                {SCORE_SERIES.map(({ key }) => (
+                  <td key={key} className="border border-gray-300 p-2">{result[key].toFixed(1)}%</td>
+                ))}
+                <td className="border border-gray-300 p-2">
+                  <button onClick={() => onOpenRevision(id)} className="text-blue-500">
+                    Open
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {revisions.length > 1 && (
+        <div>
+          <h4 className="text-xl font-semibold mb-3">What Changed</h4>
+          <div className="flex items-center gap-2 mb-4">
+            {revisionSelect(fromIndex, setFromIndex)}
+            <span>→</span>
+            {revisionSelect(toIndex, setToIndex)}
+          </div>
+
+          {diff && (
+            <>
+              {(Object.keys(SWOT_LABELS) as (keyof SwotAnalysis)[]).map((key) => (
+                <ListChanges key={key} title={`SWOT: ${SWOT_LABELS[key]}`} diff={diff.swot[key]} />
+              ))}
+              <ListChanges title="Critical Questions" diff={diff.criticalQuestions} />
+              {diff.memoSections.map(({ section, before, after }) => (
+                <div key={section} className="mb-4">
+                  <h5 className="font-semibold mb-1">Memo: {INVESTMENT_MEMO_SECTION_LABELS[section] || section}</h5>
+                  <div className="grid md:grid-cols-2 gap-2">
+                    <p className="bg-red-50 px-2 py-1 rounded">{before || 'Not available'}</p>
+                    <p className="bg-green-50 px-2 py-1 rounded">{after || 'Not available'}</p>
+                  </div>
+                </div>
+              ))}
+              <DueDiligenceChanges title="Due Diligence: Tech" diff={diff.dueDiligenceTech} />
+              <DueDiligenceChanges title="Due Diligence: Go-to-Market" diff={diff.dueDiligenceGTM} />
+            </>
+          )}
+          {!hasChanges && (
+            <p className="text-gray-600">
+              {fromIndex === toIndex ? 'Pick two different revisions to compare.' : 'No changes between these revisions.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdeaThread;
@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState } from 'react';
+import { BottomUpMarketSize, Currency } from '@/lib/analysis';
+import { formatMoney } from '@/lib/deckFigures';
+import { calculateBottomUpMarketSize, validateBottomUpMarketSize } from '@/lib/marketSize';
+
+interface MarketSizeCalculatorProps {
+  // The inputs last applied to this analysis, if any
+  initial?: BottomUpMarketSize;
+  defaultCurrency: Currency;
+  onApply: (inputs: BottomUpMarketSize) => void;
+}
+
+const CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP'];
+
+/**
+ * Bottom-up market sizing: potential customers × yearly price is the SAM and
+ * the expected penetration of it the SOM.
+ */
+export default function MarketSizeCalculator({ initial, defaultCurrency, onApply }: MarketSizeCalculatorProps) {
+  const [customers, setCustomers] = useState(initial ? String(initial.customers) : '');
+  const [annualPrice, setAnnualPrice] = useState(initial ? String(initial.annualPrice) : '');
+  const [penetration, setPenetration] = useState(initial ? String(initial.penetration) : '');
+  const [currency, setCurrency] = useState<Currency>(initial?.currency ?? defaultCurrency);
+
+  const inputs: BottomUpMarketSize = {
+    customers: Number(customers),
+    annualPrice: Number(annualPrice),
+    penetration: Number(penetration),
+    currency,
+  };
+  const errors = validateBottomUpMarketSize(inputs);
+  const { sam, som } = calculateBottomUpMarketSize(inputs);
+  const started = customers !== '' || annualPrice !== '' || penetration !== '';
+
+  return (
+    <div className="bg-white p-4 rounded-md shadow mt-4">
+      <h5 className="font-semibold mb-2">Bottom-up Calculator</h5>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <label className="text-sm text-gray-600">
+          Potential customers
+          <input
+            type="number"
+            min="1"
+            value={customers}
+            onChange={(e) => setCustomers(e.target.value)}
+            className="w-full p-2 border rounded"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Yearly price per customer
+          <input
+            type="number"
+            min="0"
+            value={annualPrice}
+            onChange={(e) => setAnnualPrice(e.target.value)}
+            className="w-full p-2 border rounded"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Penetration (%)
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="0.1"
+            value={penetration}
+            onChange={(e) => setPenetration(e.target.value)}
+            className="w-full p-2 border rounded"
+          />
+        </label>
+        <label className="text-sm text-gray-600">
+          Currency
+          <select
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as Currency)}
+            className="w-full p-2 border rounded"
+          >
+            {CURRENCIES.map((code) => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="flex justify-between items-center mt-2">
+        {errors.length === 0 ? (
+          <p>SAM {formatMoney(sam, currency)} · SOM {formatMoney(som, currency)}</p>
+        ) : (
+          <p className={`text-sm ${started ? 'text-red-600' : 'text-gray-600'}`}>
+            {started ? errors[0] : 'Fill in all three fields to size the market from the bottom up.'}
+          </p>
+        )}
+        <button
+          onClick={() => onApply(inputs)}
+          disabled={errors.length > 0}
+          className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600 disabled:opacity-50"
+        >
+          Use these figures
+        </button>
+      </div>
+    </div>
+  );
+}
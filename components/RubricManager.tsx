@@ -0,0 +1,302 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  RUBRIC_CATEGORY_LABELS,
+  RubricCategory,
+  RubricCriterion,
+  ScoringRubric,
+  ScoringRubricFields,
+} from '@/lib/scoringRubric';
+
+interface RubricManagerProps {
+  rubrics: ScoringRubric[];
+  onChange: (rubrics: ScoringRubric[]) => void;
+}
+
+type CriterionFormState = Omit<RubricCriterion, 'weight'> & { weight: string };
+
+interface RubricFormState {
+  name: string;
+  description: string;
+  criteria: CriterionFormState[];
+}
+
+function emptyCriterion(category: RubricCategory): CriterionFormState {
+  return { name: '', description: '', category, weight: '1', guidance: '' };
+}
+
+const EMPTY_FORM: RubricFormState = {
+  name: '',
+  description: '',
+  criteria: [emptyCriterion('tech'), emptyCriterion('gtm')],
+};
+
+function toFormState(rubric: ScoringRubricFields): RubricFormState {
+  return {
+    name: rubric.name,
+    description: rubric.description,
+    criteria: rubric.criteria.map((criterion) => ({ ...criterion, weight: String(criterion.weight) })),
+  };
+}
+
+function toFields(form: RubricFormState): ScoringRubricFields {
+  return {
+    name: form.name,
+    description: form.description,
+    criteria: form.criteria.map((criterion) => ({ ...criterion, weight: Number(criterion.weight) })),
+  };
+}
+
+function RubricForm({ initial, submitLabel, onSubmit, onCancel }: {
+  initial: RubricFormState;
+  submitLabel: string;
+  onSubmit: (fields: ScoringRubricFields) => void;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(initial);
+
+  const updateCriterion = (index: number, changes: Partial<CriterionFormState>) => {
+    setForm({
+      ...form,
+      criteria: form.criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)),
+    });
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(toFields(form));
+      }}
+      className="space-y-2"
+    >
+      <input
+        value={form.name}
+        onChange={(e) => setForm({ ...form, name: e.target.value })}
+        placeholder="Rubric name, e.g. Climate fund thesis"
+        className="w-full p-2 border rounded"
+        required
+      />
+      <textarea
+        value={form.description}
+        onChange={(e) => setForm({ ...form, description: e.target.value })}
+        placeholder="What this rubric is for"
+        className="w-full p-2 border rounded"
+        rows={2}
+      />
+      {form.criteria.map((criterion, index) => (
+        <div key={index} className="bg-white p-2 rounded-md grid grid-cols-6 gap-2">
+          <input
+            value={criterion.name}
+            onChange={(e) => updateCriterion(index, { name: e.target.value })}
+            placeholder="Criterion"
+            className="col-span-3 p-2 border rounded"
+            required
+          />
+          <select
+            value={criterion.category}
+            onChange={(e) => updateCriterion(index, { category: e.target.value as RubricCategory })}
+            className="p-2 border rounded"
+          >
+            {(Object.entries(RUBRIC_CATEGORY_LABELS) as [RubricCategory, string][]).map(([category, label]) => (
+              <option key={category} value={category}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0.1"
+            step="0.1"
+            value={criterion.weight}
+            onChange={(e) => updateCriterion(index, { weight: e.target.value })}
+            title="Weight"
+            className="p-2 border rounded"
+            required
+          />
+          <button
+            type="button"
+            onClick={() => setForm({ ...form, criteria: form.criteria.filter((_, i) => i !== index) })}
+            className="text-red-500"
+          >
+            Remove
+          </button>
+          <input
+            value={criterion.description}
+            onChange={(e) => updateCriterion(index, { description: e.target.value })}
+            placeholder="Description"
+            className="col-span-3 p-2 border rounded"
+          />
+          <input
+            value={criterion.guidance}
+            onChange={(e) => updateCriterion(index, { guidance: e.target.value })}
+            placeholder="Scoring guidance, e.g. 80+ when..."
+            className="col-span-3 p-2 border rounded"
+          />
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <button type="submit" className="bg-green-500 text-white px-4 py-2 rounded-md hover:bg-green-600">
+          {submitLabel}
+        </button>
+        <button
+          type="button"
+          onClick={() => setForm({ ...form, criteria: [...form.criteria, emptyCriterion('tech')] })}
+          className="text-blue-500 px-4 py-2"
+        >
+          Add a criterion
+        </button>
+        <button type="button" onClick={onCancel} className="text-gray-600 px-4 py-2">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * The team's scoring rubrics. Editing a rubric saves it as a new version;
+ * analyses already scored with it keep the version they used.
+ */
+export default function RubricManager({ rubrics, onChange }: RubricManagerProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const saveRubric = async (fields: ScoringRubricFields, id?: string) => {
+    try {
+      const response = await fetch(id ? `/api/rubrics/${id}` : '/api/rubrics', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrors(data.details?.length ? data.details : [data.error || 'Failed to save the rubric.']);
+        return;
+      }
+
+      const saved: ScoringRubric = data;
+      onChange(id ? rubrics.map((rubric) => rubric.id === id ? saved : rubric) : [...rubrics, saved]);
+      setIsAdding(false);
+      setEditingId(null);
+      setErrors([]);
+    } catch (err) {
+      console.error('Error:', err);
+      setErrors(['Failed to save the rubric.']);
+    }
+  };
+
+  const deleteRubric = async (id: string) => {
+    try {
+      const response = await fetch(`/api/rubrics/${id}`, { method: 'DELETE' });
+      if (response.ok || response.status === 404) {
+        onChange(rubrics.filter((rubric) => rubric.id !== id));
+      } else {
+        setErrors(['Failed to delete the rubric.']);
+      }
+    } catch (err) {
+      console.error('Error:', err);
+      setErrors(['Failed to delete the rubric.']);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-2xl font-semibold">📐 Scoring Rubrics</h3>
+        {!isAdding && (
+          <button onClick={() => setIsAdding(true)} className="text-blue-500">
+            Add a rubric
+          </button>
+        )}
+      </div>
+      <p className="text-gray-600 mb-4">
+        A rubric replaces the stage&apos;s due diligence criteria with your own. The tech and GTM scores are the
+        weighted averages of the scores of their criteria.
+      </p>
+
+      {errors.length > 0 && (
+        <ul className="list-disc pl-5 text-sm text-red-600 mb-4">
+          {errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      {isAdding && (
+        <div className="bg-gray-100 p-4 rounded-md mb-4">
+          <RubricForm
+            initial={EMPTY_FORM}
+            submitLabel="Add Rubric"
+            onSubmit={(fields) => saveRubric(fields)}
+            onCancel={() => setIsAdding(false)}
+          />
+        </div>
+      )}
+
+      {rubrics.length === 0 ? (
+        <p className="text-gray-600">No rubrics yet. Analyses are scored with the stage rubric.</p>
+      ) : (
+        <div className="space-y-4">
+          {rubrics.map((rubric) => (
+            <div key={rubric.id} className="border border-gray-300 rounded-md p-4">
+              {editingId === rubric.id ? (
+                <div className="bg-gray-100 p-4 rounded-md">
+                  <RubricForm
+                    initial={toFormState(rubric)}
+                    submitLabel="Save as New Version"
+                    onSubmit={(fields) => saveRubric(fields, rubric.id)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              ) : (
+                <>
+                  <div className="flex justify-between items-start gap-4">
+                    <div>
+                      <h4 className="font-semibold">
+                        {rubric.name}
+                        <span className="ml-2 text-xs text-gray-500">v{rubric.version}</span>
+                      </h4>
+                      {rubric.description && <p className="text-gray-600">{rubric.description}</p>}
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      <button onClick={() => setEditingId(rubric.id)} className="text-blue-500">
+                        Edit
+                      </button>
+                      <button onClick={() => deleteRubric(rubric.id)} className="text-red-500">
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                  <table className="w-full border-collapse border border-gray-300 mt-2 text-sm">
+                    <thead>
+                      <tr className="bg-gray-100">
+                        <th className="border border-gray-300 p-2">Criterion</th>
+                        <th className="border border-gray-300 p-2">Category</th>
+                        <th className="border border-gray-300 p-2">Weight</th>
+                        <th className="border border-gray-300 p-2">Scoring Guidance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rubric.criteria.map((criterion) => (
+                        <tr key={criterion.name}>
+                          <td className="border border-gray-300 p-2">
+                            {criterion.name}
+                            {criterion.description && <p className="text-xs text-gray-500">{criterion.description}</p>}
+                          </td>
+                          <td className="border border-gray-300 p-2">{RUBRIC_CATEGORY_LABELS[criterion.category]}</td>
+                          <td className="border border-gray-300 p-2">{criterion.weight}</td>
+                          <td className="border border-gray-300 p-2">{criterion.guidance || '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import React from 'react';
+import {
+  SENTIMENT_SECTION_LABELS,
+  SentimentLabel,
+  SentimentScores,
+  SentimentSection,
+} from '@/lib/analysis';
+import { formatDeckCitation } from '@/lib/deckSections';
+import { SharedReportResult } from '@/lib/sharedReport';
+
+interface SentimentPanelProps {
+  result: SharedReportResult;
+}
+
+const LABEL_COLORS: Record<SentimentLabel, string> = {
+  positive: 'bg-green-100 text-green-700',
+  neutral: 'bg-gray-100 text-gray-700',
+  negative: 'bg-red-100 text-red-700',
+};
+
+const SHARES: { key: keyof SentimentScores; color: string }[] = [
+  { key: 'positive', color: 'bg-green-500' },
+  { key: 'neutral', color: 'bg-gray-300' },
+  { key: 'negative', color: 'bg-red-500' },
+];
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+const SentimentBar: React.FC<{ scores: SentimentScores }> = ({ scores }) => (
+  <div className="flex h-3 w-full rounded overflow-hidden">
+    {SHARES.map(({ key, color }) => (
+      <div key={key} className={color} style={{ width: percent(scores[key]) }} title={`${key}: ${percent(scores[key])}`} />
+    ))}
+  </div>
+);
+
+/**
+ * Positive, neutral and negative shares of the idea, deck and SWOT, with the
+ * deck passages that read the most negative.
+ */
+export default function SentimentPanel({ result }: SentimentPanelProps) {
+  const { overallSentiment, sentimentScores, sectionSentiment = {}, negativePassages = [] } = result;
+  if (!overallSentiment || !sentimentScores) return null;
+
+  const sections = (Object.keys(SENTIMENT_SECTION_LABELS) as SentimentSection[]).filter((section) => sectionSentiment[section]);
+  const slides = (result.pitchDeckStats?.slides ?? 0) > 0;
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-2xl font-semibold mb-4">🧭 Sentiment</h3>
+      <p className="text-gray-600 mb-4">
+        Overall tone:{' '}
+        <span className={`px-2 py-1 rounded-md font-semibold capitalize ${LABEL_COLORS[overallSentiment]}`}>
+          {overallSentiment}
+        </span>
+      </p>
+
+      <table className="w-full border-collapse border border-gray-300">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border border-gray-300 p-2">Section</th>
+            <th className="border border-gray-300 p-2">Positive</th>
+            <th className="border border-gray-300 p-2">Neutral</th>
+            <th className="border border-gray-300 p-2">Negative</th>
+            <th className="border border-gray-300 p-2 w-1/3">Tone</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sections.map((section) => {
+            const { label, scores } = sectionSentiment[section]!;
+            return (
+              <tr key={section}>
+                <td className="border border-gray-300 p-2">{SENTIMENT_SECTION_LABELS[section]}</td>
+                <td className="border border-gray-300 p-2">{percent(scores.positive)}</td>
+                <td className="border border-gray-300 p-2">{percent(scores.neutral)}</td>
+                <td className="border border-gray-300 p-2">{percent(scores.negative)}</td>
+                <td className="border border-gray-300 p-2">
+                  <SentimentBar scores={scores} />
+                  <span className="text-xs text-gray-500 capitalize">{label}</span>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {negativePassages.length > 0 && (
+        <div className="bg-red-50 p-4 rounded-md mt-4">
+          <h4 className="font-bold text-red-700 mb-2">Most Negative Deck Passages</h4>
+          <ul className="list-disc pl-5">
+            {negativePassages.map((passage, index) => (
+              <li key={index}>
+                &ldquo;{passage.text}&rdquo;
+                <span className="text-sm text-gray-500 ml-1">({formatDeckCitation([passage.page], slides)})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
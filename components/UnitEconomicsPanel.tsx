@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Currency, UnitEconomicsInputs } from '@/lib/analysis';
+import { formatMoney } from '@/lib/deckFigures';
+import { SharedReportResult } from '@/lib/sharedReport';
+import { compareUnitEconomics, formatUnitEconomicsValue, getDefaultUnitEconomics } from '@/lib/unitEconomics';
+
+interface UnitEconomicsPanelProps {
+  result: SharedReportResult;
+  // Without it the panel only shows the inputs saved with the analysis
+  onSave?: (inputs: UnitEconomicsInputs) => void;
+}
+
+type NumericInput = Exclude<keyof UnitEconomicsInputs, 'currency'>;
+
+const INPUT_FIELDS: { key: NumericInput; label: string; money?: boolean }[] = [
+  { key: 'monthlyPrice', label: 'Monthly price per customer', money: true },
+  { key: 'grossMargin', label: 'Gross margin (%)' },
+  { key: 'monthlyChurn', label: 'Monthly churn (%)' },
+  { key: 'cac', label: 'CAC', money: true },
+  { key: 'monthlyBurn', label: 'Monthly burn', money: true },
+  { key: 'cash', label: 'Cash in the bank', money: true },
+];
+
+const CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP'];
+
+function toFormState(inputs: UnitEconomicsInputs): Record<NumericInput, string> {
+  return Object.fromEntries(
+    INPUT_FIELDS.map(({ key }) => [key, inputs[key] === null ? '' : String(inputs[key])])
+  ) as Record<NumericInput, string>;
+}
+
+function toInputs(form: Record<NumericInput, string>, currency: Currency): UnitEconomicsInputs {
+  const inputs = Object.fromEntries(
+    INPUT_FIELDS.map(({ key }) => [key, form[key].trim() === '' || !Number.isFinite(Number(form[key])) ? null : Number(form[key])])
+  ) as Record<NumericInput, number | null>;
+  return { ...inputs, currency };
+}
+
+/**
+ * LTV, LTV:CAC, CAC payback and runway computed from the startup's own
+ * numbers, each compared with the industry averages of the analysis.
+ */
+export default function UnitEconomicsPanel({ result, onSave }: UnitEconomicsPanelProps) {
+  const [defaults] = useState(() => getDefaultUnitEconomics(result));
+  const [form, setForm] = useState(() => toFormState(defaults));
+  const [currency, setCurrency] = useState<Currency>(defaults.currency);
+
+  if (!onSave && !result.unitEconomics) return null;
+
+  const inputs = onSave ? toInputs(form, currency) : result.unitEconomics!;
+  const rows = compareUnitEconomics(inputs, result.industryAverages);
+  const isSaved = JSON.stringify(inputs) === JSON.stringify(result.unitEconomics);
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-2xl font-semibold mb-4">🧮 Unit Economics</h3>
+      {onSave ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-4">
+          {INPUT_FIELDS.map(({ key, label }) => (
+            <label key={key} className="text-sm text-gray-600">
+              {label}
+              <input
+                type="number"
+                min="0"
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                className="w-full p-2 border rounded"
+              />
+            </label>
+          ))}
+          <label className="text-sm text-gray-600">
+            Currency
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as Currency)}
+              className="w-full p-2 border rounded"
+            >
+              {CURRENCIES.map((code) => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      ) : (
+        <p className="text-gray-600 mb-4">
+          {INPUT_FIELDS
+            .filter(({ key }) => inputs[key] !== null)
+            .map(({ key, label, money }) => `${label}: ${money ? formatMoney(inputs[key]!, inputs.currency) : inputs[key]}`)
+            .join(' · ')}
+        </p>
+      )}
+
+      <table className="w-full border-collapse border border-gray-300">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="border border-gray-300 p-2">Metric</th>
+            <th className="border border-gray-300 p-2">Value</th>
+            <th className="border border-gray-300 p-2">Benchmark</th>
+            <th className="border border-gray-300 p-2">vs. Benchmark</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.metric}>
+              <td className="border border-gray-300 p-2">{row.label}</td>
+              <td className="border border-gray-300 p-2">
+                {row.value !== null ? formatUnitEconomicsValue(row.metric, row.value, inputs.currency) : '—'}
+              </td>
+              <td className="border border-gray-300 p-2">
+                {row.benchmark !== null ? (
+                  <>
+                    {formatUnitEconomicsValue(row.metric, row.benchmark, inputs.currency)}
+                    <span className="text-xs text-gray-500 ml-1">({row.benchmarkSource})</span>
+                  </>
+                ) : '—'}
+              </td>
+              <td
+                className={`border border-gray-300 p-2 ${
+                  row.favorable === null ? 'text-gray-600' : row.favorable ? 'text-green-600' : 'text-red-600'
+                }`}
+              >
+                {row.comparison === 'above' && '▲ Above'}
+                {row.comparison === 'below' && '▼ Below'}
+                {row.comparison === 'in line' && '● In line'}
+                {row.comparison === null && '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {onSave && (
+        <div className="flex items-center gap-4 mt-4">
+          <button
+            onClick={() => onSave(inputs)}
+            disabled={isSaved}
+            className="bg-blue-500 text-white px-4 py-2 rounded-md hover:bg-blue-600 disabled:opacity-50"
+          >
+            Keep with Analysis
+          </button>
+          <p className="text-sm text-gray-600">Kept inputs are stored when the analysis is saved.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,408 @@
+import { Weights } from './scoring';
+import { StageRubric } from './stageRubric';
+import { RubricSnapshot } from './scoringRubric';
+
+// Canonical shape of an analysis, produced by app/api/analysisCore.ts and rendered by app/page.tsx
+
+export interface SwotAnalysis {
+  strengths: string[];
+  weaknesses: string[];
+  opportunities: string[];
+  threats: string[];
+}
+
+export interface KeyMetrics {
+  tam: string;
+  sam: string;
+  som: string;
+  cac: string;
+  ltv: string;
+  burnRate: string;
+  // Only set when the figure was found in the pitch deck
+  arr?: string;
+  mrr?: string;
+  revenue?: string;
+  growthRate?: string;
+  runway?: string;
+  headcount?: string;
+  valuation?: string;
+}
+
+export interface RiskAndMitigation {
+  risk: string;
+  mitigation: string;
+}
+
+export interface InvestmentMemo {
+  summary: string;
+  marketOpportunity: string;
+  businessModel: string;
+  competitiveAdvantage: string;
+  financialProjections: string;
+  fundingRequirements: string;
+  productOverview?: string;
+  teamBackground?: string;
+  goToMarketStrategy?: string;
+  keyMetrics: KeyMetrics;
+  keyRisksAndMitigation?: RiskAndMitigation[];
+}
+
+// Display names of the memo's text sections, in the order they are presented
+export const INVESTMENT_MEMO_SECTION_LABELS: Partial<Record<keyof InvestmentMemo, string>> = {
+  summary: 'Executive Summary',
+  productOverview: 'Product Overview',
+  marketOpportunity: 'Market Opportunity',
+  businessModel: 'Business Model',
+  competitiveAdvantage: 'Competitive Advantage',
+  goToMarketStrategy: 'Go-to-Market Strategy',
+  teamBackground: 'Team Background',
+  financialProjections: 'Financial Projections',
+  fundingRequirements: 'Funding Requirements',
+};
+
+export const KEY_METRIC_LABELS: Record<keyof KeyMetrics, string> = {
+  tam: 'TAM',
+  sam: 'SAM',
+  som: 'SOM',
+  cac: 'CAC',
+  ltv: 'LTV',
+  burnRate: 'Burn Rate',
+  arr: 'ARR',
+  mrr: 'MRR',
+  revenue: 'Revenue',
+  growthRate: 'Growth Rate',
+  runway: 'Runway',
+  headcount: 'Headcount',
+  valuation: 'Valuation',
+};
+
+const DECK_ONLY_KEY_METRICS: (keyof KeyMetrics)[] = ['arr', 'mrr', 'revenue', 'growthRate', 'runway', 'headcount', 'valuation'];
+
+// Every metric the model estimates, plus the deck-only ones that were found
+export function getKeyMetricLabels(keyMetrics: Partial<KeyMetrics> = {}): [keyof KeyMetrics, string][] {
+  return (Object.entries(KEY_METRIC_LABELS) as [keyof KeyMetrics, string][])
+    .filter(([key]) => !DECK_ONLY_KEY_METRICS.includes(key) || Boolean(keyMetrics[key]));
+}
+
+export interface InvestmentMemoScores {
+  summary: number;
+  marketOpportunity: number;
+  businessModel: number;
+  competitiveAdvantage: number;
+  financialProjections: number;
+  fundingRequirements: number;
+  // Absent from analyses saved before these sections were generated
+  productOverview?: number;
+  teamBackground?: number;
+  goToMarketStrategy?: number;
+  keyRisksAndMitigation?: number;
+}
+
+// The memo's text sections plus the risks, in the order they are presented
+export const INVESTMENT_MEMO_SCORE_LABELS: Record<keyof InvestmentMemoScores, string> = {
+  summary: 'Executive Summary',
+  productOverview: 'Product Overview',
+  marketOpportunity: 'Market Opportunity',
+  businessModel: 'Business Model',
+  competitiveAdvantage: 'Competitive Advantage',
+  goToMarketStrategy: 'Go-to-Market Strategy',
+  teamBackground: 'Team Background',
+  financialProjections: 'Financial Projections',
+  fundingRequirements: 'Funding Requirements',
+  keyRisksAndMitigation: 'Key Risks and Mitigation',
+};
+
+// A verbatim quote from the deck, checked against the extracted text of the slide it's on
+export interface ScoreEvidence {
+  quote: string;
+  page: number;
+}
+
+// Why a score was given; absent from analyses saved before scores were explained
+export interface ScoreExplanation {
+  rationale: string;
+  evidence: ScoreEvidence[];
+}
+
+export interface DueDiligencePoint extends Partial<ScoreExplanation> {
+  point: string;
+  score: number;
+  // The rubric criterion the point scores; absent from analyses saved before rubrics
+  criterion?: string;
+  weight?: number;
+}
+
+export interface IndustryAverages {
+  averageFunding: string;
+  averageTimeToMarket: string;
+  averageCAC: string;
+  averageLTV: string;
+  averageBurnRate: string;
+  averageRevenueGrowth: string;
+}
+
+export interface OcrPageResult {
+  number: number;
+  confidence: number;
+  characters: number;
+}
+
+export interface PitchDeckStats {
+  pages: number;
+  slides: number;
+  characters: number;
+  ocrPages: OcrPageResult[];
+}
+
+// Standard pitch deck sections that each slide or page is classified into
+export type DeckSection =
+  | 'problem'
+  | 'solution'
+  | 'market'
+  | 'businessModel'
+  | 'traction'
+  | 'team'
+  | 'competition'
+  | 'financials'
+  | 'ask';
+
+export const DECK_SECTION_LABELS: Record<DeckSection, string> = {
+  problem: 'Problem',
+  solution: 'Solution',
+  market: 'Market',
+  businessModel: 'Business Model',
+  traction: 'Traction',
+  team: 'Team',
+  competition: 'Competition',
+  financials: 'Financials',
+  ask: 'Ask',
+};
+
+export interface DeckPageSection {
+  number: number;
+  // null when the page doesn't clearly belong to any section, e.g. a title or closing slide
+  section: DeckSection | null;
+}
+
+// Slide or page numbers each investment memo section was drawn from
+export type MemoCitations = Partial<Record<keyof InvestmentMemo, number[]>>;
+
+export type DeckFigureKind =
+  | 'arr'
+  | 'mrr'
+  | 'revenue'
+  | 'growthRate'
+  | 'burnRate'
+  | 'runway'
+  | 'headcount'
+  | 'raise'
+  | 'valuation';
+
+export type Currency = 'USD' | 'EUR' | 'GBP';
+
+export type DeckFigureUnit = Currency | 'percent' | 'months' | 'people';
+
+export const DECK_FIGURE_LABELS: Record<DeckFigureKind, string> = {
+  arr: 'ARR',
+  mrr: 'MRR',
+  revenue: 'Revenue',
+  growthRate: 'Growth Rate',
+  burnRate: 'Burn Rate',
+  runway: 'Runway',
+  headcount: 'Headcount',
+  raise: 'Raise',
+  valuation: 'Valuation',
+};
+
+// A number read from the deck; ranges like "$2-3M" keep their upper bound in `maxValue`
+export interface DeckFigure {
+  kind: DeckFigureKind;
+  value: number;
+  maxValue: number | null;
+  unit: DeckFigureUnit;
+  period: 'month' | 'year' | null;
+  page: number;
+  // The matched text as written in the deck
+  text: string;
+}
+
+// Inputs of the bottom-up market size calculator, kept once its figures replace the model's SAM and SOM
+export interface BottomUpMarketSize {
+  customers: number;
+  annualPrice: number;
+  // Percentage of the serviceable market expected to be won
+  penetration: number;
+  currency: Currency;
+}
+
+// What the unit economics panel was given; null where left empty, money amounts in `currency`
+export interface UnitEconomicsInputs {
+  monthlyPrice: number | null;
+  // Percentages
+  grossMargin: number | null;
+  monthlyChurn: number | null;
+  cac: number | null;
+  monthlyBurn: number | null;
+  cash: number | null;
+  currency: Currency;
+}
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+// Share of sentences of each kind, 0-1
+export interface SentimentScores {
+  positive: number;
+  negative: number;
+  neutral: number;
+}
+
+export type SentimentSection = 'idea' | 'deck' | 'swot';
+
+export const SENTIMENT_SECTION_LABELS: Record<SentimentSection, string> = {
+  idea: 'Idea',
+  deck: 'Pitch Deck',
+  swot: 'SWOT Analysis',
+};
+
+export interface SectionSentiment {
+  label: SentimentLabel;
+  scores: SentimentScores;
+}
+
+// A deck sentence with its lexicon score; the lower, the more negative
+export interface SentimentPassage {
+  text: string;
+  score: number;
+  page: number;
+}
+
+export interface AnalysisRepairs {
+  analysis: string[];
+  industryAverages: string[];
+}
+
+export interface AnalysisScores {
+  techScore: number;
+  gtmScore: number;
+  confidenceScore: number;
+  globalScore: number;
+}
+
+// What the analysis was run on, kept so a saved result can be traced back to its inputs
+export interface AnalysisInputs {
+  query: string;
+  targetMarket: string;
+  startupStage: string;
+  pitchDeck: {
+    filename: string;
+    sha256: string;
+  } | null;
+}
+
+export interface AnalysisResult extends AnalysisScores {
+  idea: string;
+  inputs: AnalysisInputs;
+  swot: SwotAnalysis;
+  criticalQuestions: string[];
+  actionPlan: string[];
+  targetMarketStrategies: string[];
+  competition: string[];
+  marketDemandIndicators: string[];
+  frameworks: string[];
+  investmentMemo: InvestmentMemo;
+  investmentMemoScores: InvestmentMemoScores;
+  investmentMemoScoreExplanations?: Partial<Record<keyof InvestmentMemoScores, ScoreExplanation>>;
+  dueDiligenceTech: DueDiligencePoint[];
+  dueDiligenceGTM: DueDiligencePoint[];
+  industryAverages: IndustryAverages;
+  weights: Weights;
+  startupStage: string;
+  // The rubric the analysis was scored against; absent from analyses saved before stage rubrics
+  stageRubric?: StageRubric;
+  // Set when a team rubric replaced the stage rubric's criteria, at the version that was used
+  scoringRubric?: RubricSnapshot;
+  targetMarket: string;
+  pitchDeckProcessed: boolean;
+  pitchDeckStats: PitchDeckStats | null;
+  // Investment memo fields that were taken from the deck rather than the model
+  deckOverrides: (keyof InvestmentMemo)[];
+  // Absent from analyses saved before slides were classified
+  deckSections?: DeckPageSection[];
+  memoCitations?: MemoCitations;
+  deckFigures?: DeckFigure[];
+  bottomUpMarketSize?: BottomUpMarketSize;
+  unitEconomics?: UnitEconomicsInputs;
+  repairs: AnalysisRepairs;
+  overallSentiment?: SentimentLabel;
+  sentimentScores?: SentimentScores;
+  sectionSentiment?: Partial<Record<SentimentSection, SectionSentiment>>;
+  negativePassages?: SentimentPassage[];
+}
+
+export type AnalysisStage =
+  | 'deck-parsed'
+  | 'deck-summarized'
+  | 'analysis-ready'
+  | 'scores-computed'
+  | 'industry-averages-ready';
+
+export interface SavedAnalysisSummary {
+  id: string;
+  createdAt: string;
+  // Re-runs of the same idea share a thread and are numbered from 1
+  threadId: string;
+  revision: number;
+  idea: string;
+  globalScore: number;
+  startupStage: string | null;
+  // Entries imported from the old localStorage list only kept the idea and score
+  hasResult: boolean;
+}
+
+export interface SavedAnalysis {
+  id: string;
+  createdAt: string;
+  threadId: string;
+  revision: number;
+  idea: string;
+  globalScore: number;
+  inputs: AnalysisInputs | null;
+  result: AnalysisResult | null;
+}
+
+// Shape of the entries the page used to keep in localStorage
+export interface LegacySavedAnalysis {
+  id: string;
+  date: string;
+  idea: string;
+  globalScore: number;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasNumbers(value: Record<string, unknown>, keys: string[]): boolean {
+  return keys.every((key) => typeof value[key] === 'number');
+}
+
+function isDueDiligence(points: unknown): points is DueDiligencePoint[] {
+  return Array.isArray(points)
+    && points.every((point) => isRecord(point) && typeof point.point === 'string' && typeof point.score === 'number');
+}
+
+// Checks the fields the report, the exports and the CSV read without a fallback, for results that come from outside
+export function isAnalysisResult(value: unknown): value is AnalysisResult {
+  if (!isRecord(value)) return false;
+  const { weights, investmentMemo } = value;
+  return typeof value.idea === 'string'
+    && hasNumbers(value, ['techScore', 'gtmScore', 'confidenceScore', 'globalScore'])
+    && isRecord(weights)
+    && hasNumbers(weights, ['tech', 'gtm', 'investmentMemo'])
+    && isRecord(investmentMemo)
+    && isRecord(investmentMemo.keyMetrics)
+    && isRecord(value.investmentMemoScores)
+    && isRecord(value.industryAverages)
+    && isDueDiligence(value.dueDiligenceTech)
+    && isDueDiligence(value.dueDiligenceGTM);
+}
@@ -0,0 +1,93 @@
+import { AnalysisResult, DueDiligencePoint, INVESTMENT_MEMO_SECTION_LABELS, InvestmentMemo, SwotAnalysis } from './analysis';
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface MemoSectionChange {
+  section: keyof InvestmentMemo;
+  before: string;
+  after: string;
+}
+
+export interface ScoreChange {
+  point: string;
+  before: number;
+  after: number;
+}
+
+export interface DueDiligenceDiff extends ListDiff {
+  rescored: ScoreChange[];
+}
+
+export interface AnalysisDiff {
+  swot: Record<keyof SwotAnalysis, ListDiff>;
+  criticalQuestions: ListDiff;
+  memoSections: MemoSectionChange[];
+  dueDiligenceTech: DueDiligenceDiff;
+  dueDiligenceGTM: DueDiligenceDiff;
+}
+
+// keyMetrics and keyRisksAndMitigation are structured and not compared as text
+const MEMO_TEXT_SECTIONS = Object.keys(INVESTMENT_MEMO_SECTION_LABELS) as (keyof InvestmentMemo)[];
+
+const SWOT_KEYS: (keyof SwotAnalysis)[] = ['strengths', 'weaknesses', 'opportunities', 'threats'];
+
+// Model output varies in case and spacing between runs, which shouldn't count as a change
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function diffLists(before: string[] = [], after: string[] = []): ListDiff {
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+  return {
+    added: after.filter((item) => !beforeKeys.has(normalize(item))),
+    removed: before.filter((item) => !afterKeys.has(normalize(item))),
+  };
+}
+
+function diffDueDiligence(before: DueDiligencePoint[] = [], after: DueDiligencePoint[] = []): DueDiligenceDiff {
+  const beforeScores = new Map(before.map((item) => [normalize(item.point), item.score]));
+  const rescored: ScoreChange[] = [];
+  after.forEach((item) => {
+    const previous = beforeScores.get(normalize(item.point));
+    if (previous !== undefined && previous !== item.score) {
+      rescored.push({ point: item.point, before: previous, after: item.score });
+    }
+  });
+
+  return {
+    ...diffLists(before.map((item) => item.point), after.map((item) => item.point)),
+    rescored,
+  };
+}
+
+/**
+ * Lists what changed from one revision of an idea to another: SWOT items,
+ * critical questions, memo sections and due diligence points.
+ */
+export function diffAnalyses(before: AnalysisResult, after: AnalysisResult): AnalysisDiff {
+  const swot = {} as Record<keyof SwotAnalysis, ListDiff>;
+  SWOT_KEYS.forEach((key) => {
+    swot[key] = diffLists(before.swot?.[key], after.swot?.[key]);
+  });
+
+  const memoSections: MemoSectionChange[] = [];
+  MEMO_TEXT_SECTIONS.forEach((section) => {
+    const beforeText = (before.investmentMemo?.[section] as string | undefined) || '';
+    const afterText = (after.investmentMemo?.[section] as string | undefined) || '';
+    if (normalize(beforeText) !== normalize(afterText)) {
+      memoSections.push({ section, before: beforeText, after: afterText });
+    }
+  });
+
+  return {
+    swot,
+    criticalQuestions: diffLists(before.criticalQuestions, after.criticalQuestions),
+    memoSections,
+    dueDiligenceTech: diffDueDiligence(before.dueDiligenceTech, after.dueDiligenceTech),
+    dueDiligenceGTM: diffDueDiligence(before.dueDiligenceGTM, after.dueDiligenceGTM),
+  };
+}
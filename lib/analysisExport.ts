@@ -0,0 +1,103 @@
+import {
+  AnalysisResult,
+  DueDiligencePoint,
+  IndustryAverages,
+  INVESTMENT_MEMO_SCORE_LABELS,
+  InvestmentMemoScores,
+  KEY_METRIC_LABELS,
+  KeyMetrics,
+  SavedAnalysis,
+} from './analysis';
+import { escapeCsvValue } from './csv';
+
+export type FlatAnalysis = Record<string, string | number>;
+
+// Wrapper written by the JSON export and accepted by the import
+export interface AnalysesExport {
+  exportedAt: string;
+  analyses: SavedAnalysis[];
+}
+
+const MEMO_SCORE_KEYS = Object.keys(INVESTMENT_MEMO_SCORE_LABELS) as (keyof InvestmentMemoScores)[];
+const KEY_METRIC_KEYS = Object.keys(KEY_METRIC_LABELS) as (keyof KeyMetrics)[];
+const INDUSTRY_AVERAGE_KEYS: (keyof IndustryAverages)[] = [
+  'averageFunding',
+  'averageTimeToMarket',
+  'averageCAC',
+  'averageLTV',
+  'averageBurnRate',
+  'averageRevenueGrowth',
+];
+
+function flattenDueDiligence(row: FlatAnalysis, prefix: string, points: DueDiligencePoint[] = []): void {
+  points.forEach(({ point, score }, index) => {
+    row[`${prefix}.${index + 1}.point`] = point;
+    row[`${prefix}.${index + 1}.score`] = score;
+  });
+}
+
+/**
+ * One spreadsheet row per analysis. Nested fields become dotted column names,
+ * e.g. `investmentMemoScores.summary` or `dueDiligenceTech.2.score`.
+ */
+export function flattenAnalysis(analysis: SavedAnalysis): FlatAnalysis {
+  const { result, inputs } = analysis;
+  const row: FlatAnalysis = {
+    id: analysis.id,
+    createdAt: analysis.createdAt,
+    threadId: analysis.threadId,
+    revision: analysis.revision,
+    idea: analysis.idea,
+    query: inputs?.query ?? '',
+    targetMarket: inputs?.targetMarket ?? '',
+    startupStage: inputs?.startupStage ?? result?.startupStage ?? '',
+    pitchDeckFilename: inputs?.pitchDeck?.filename ?? '',
+    pitchDeckSha256: inputs?.pitchDeck?.sha256 ?? '',
+    globalScore: analysis.globalScore,
+  };
+  return result ? { ...row, ...flattenResult(result) } : row;
+}
+
+// The result's scores, metrics and due diligence as dotted columns
+export function flattenResult(result: AnalysisResult): FlatAnalysis {
+  const row: FlatAnalysis = {
+    techScore: result.techScore,
+    gtmScore: result.gtmScore,
+    confidenceScore: result.confidenceScore,
+    'weights.tech': result.weights.tech,
+    'weights.gtm': result.weights.gtm,
+    'weights.investmentMemo': result.weights.investmentMemo,
+  };
+  MEMO_SCORE_KEYS.forEach((key) => {
+    row[`investmentMemoScores.${key}`] = result.investmentMemoScores?.[key] ?? '';
+  });
+  KEY_METRIC_KEYS.forEach((key) => {
+    row[`keyMetrics.${key}`] = result.investmentMemo?.keyMetrics?.[key] ?? '';
+  });
+  INDUSTRY_AVERAGE_KEYS.forEach((key) => {
+    row[`industryAverages.${key}`] = result.industryAverages?.[key] ?? '';
+  });
+  flattenDueDiligence(row, 'dueDiligenceTech', result.dueDiligenceTech);
+  flattenDueDiligence(row, 'dueDiligenceGTM', result.dueDiligenceGTM);
+
+  return row;
+}
+
+// Columns are the union of every row's fields, since analyses can have different numbers of due diligence points
+export function flatRowsToCsv(rows: FlatAnalysis[]): string {
+  const columns: string[] = [];
+  rows.forEach((row) => {
+    Object.keys(row).forEach((column) => {
+      if (!columns.includes(column)) columns.push(column);
+    });
+  });
+
+  return [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsvValue(row[column])).join(',')),
+  ].join('\r\n');
+}
+
+export function analysesToCsv(analyses: SavedAnalysis[]): string {
+  return flatRowsToCsv(analyses.map(flattenAnalysis));
+}
@@ -0,0 +1,71 @@
+import { AnalysisResult } from './analysis';
+import { parseCsv } from './csv';
+
+export const MAX_BATCH_ROWS = 100;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+export interface BatchRow {
+  idea: string;
+  startupStage: string;
+  targetMarket: string;
+}
+
+export type BatchRowStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// Sent as the batch progresses; `result` is set once a row is done, `error` when it failed
+export interface BatchRowUpdate {
+  index: number;
+  status: BatchRowStatus;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+export interface BatchSummary {
+  succeeded: number;
+  failed: number;
+}
+
+const COLUMN_NAMES: Record<keyof BatchRow, string[]> = {
+  idea: ['idea', 'query', 'description'],
+  startupStage: ['stage', 'startupstage', 'startup stage'],
+  targetMarket: ['targetmarket', 'target market', 'market'],
+};
+
+function findColumn(header: string[], field: keyof BatchRow): number {
+  return header.findIndex((name) => COLUMN_NAMES[field].includes(name.trim().toLowerCase()));
+}
+
+/**
+ * Reads the rows of a batch CSV. A header row naming an idea column is
+ * optional; without one the columns are taken as idea, stage, target market.
+ */
+export function parseBatchCsv(text: string): { rows: BatchRow[]; errors: string[] } {
+  const records = parseCsv(text);
+  let columns: Record<keyof BatchRow, number> = { idea: 0, startupStage: 1, targetMarket: 2 };
+  if (records.length > 0 && findColumn(records[0], 'idea') !== -1) {
+    const header = records.shift()!;
+    columns = {
+      idea: findColumn(header, 'idea'),
+      startupStage: findColumn(header, 'startupStage'),
+      targetMarket: findColumn(header, 'targetMarket'),
+    };
+  }
+
+  const errors: string[] = [];
+  const rows = records
+    .map((record) => ({
+      idea: (record[columns.idea] ?? '').trim(),
+      startupStage: (record[columns.startupStage] ?? '').trim(),
+      targetMarket: (record[columns.targetMarket] ?? '').trim(),
+    }))
+    .filter((row) => row.idea !== '');
+
+  if (rows.length === 0) {
+    errors.push('The CSV has no ideas to analyze.');
+  } else if (rows.length > MAX_BATCH_ROWS) {
+    errors.push(`A batch can have at most ${MAX_BATCH_ROWS} ideas; this one has ${rows.length}.`);
+  }
+
+  return { rows, errors };
+}
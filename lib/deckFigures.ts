@@ -0,0 +1,244 @@
+import { Currency, DeckFigure, DeckFigureKind, DeckFigureUnit, KeyMetrics } from './analysis';
+
+const NUMBER = String.raw`\d+(?:,\d{3})*(?:\.\d+)?`;
+const SCALE = String.raw`(?:thousand|million|billion|trillion|mm|mn|bn|tn|k|m|b)`;
+const CURRENCY = String.raw`(?:[$€£]|(?:usd|eur|gbp)\s?)`;
+
+const MONEY_PATTERN = new RegExp(
+  String.raw`(${CURRENCY})\s?(${NUMBER})\s*(${SCALE})?\b(?:\s*(?:-|–|to)\s*${CURRENCY}?\s?(${NUMBER})\s*(${SCALE})?\b)?`,
+  'gi'
+);
+// Without a currency an amount needs a scale, so a year like "2024" isn't read as money
+const BARE_AMOUNT_PATTERN = new RegExp(
+  String.raw`\b(${NUMBER})\s*(${SCALE})?\b(?:\s*(?:-|–|to)\s*(${NUMBER})\s*(${SCALE})?\b)?`,
+  'gi'
+);
+const PERCENT_PATTERN = new RegExp(String.raw`(${NUMBER})\s?%`, 'g');
+const MONTHS_PATTERN = new RegExp(String.raw`\b(${NUMBER})(?:\s*(?:-|–|to)\s*(${NUMBER}))?[\s-]*months?\b`, 'gi');
+const PEOPLE_PATTERN = new RegExp(
+  String.raw`\b(?:team of\s+(${NUMBER})|(${NUMBER})\+?\s*(?:full-time\s+)?(?:employees|people|ftes?|team members|staff))\b`,
+  'gi'
+);
+
+const CURRENCY_UNITS: Record<string, Currency> = { $: 'USD', usd: 'USD', '€': 'EUR', eur: 'EUR', '£': 'GBP', gbp: 'GBP' };
+const CURRENCY_SYMBOLS: Record<Currency, string> = { USD: '$', EUR: '€', GBP: '£' };
+
+const SCALES: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+  tn: 1e12,
+  trillion: 1e12,
+};
+
+// Keywords that tell what a money amount is; the one nearest the amount wins
+const MONEY_KEYWORDS: [Exclude<DeckFigureKind, 'growthRate' | 'runway' | 'headcount'>, RegExp][] = [
+  ['arr', /\barr\b|annual recurring revenue|annual run[- ]rate|\brun[- ]rate/g],
+  ['mrr', /\bmrr\b|monthly recurring revenue/g],
+  ['burnRate', /\bburn/g],
+  ['valuation', /valuation|pre-money|post-money|\bvalued\b/g],
+  ['raise', /\brais|\bseeking|looking for|\bthe ask\b|\bask\b|investment of|\bround\b|\bfunding\b/g],
+  ['revenue', /revenue|\bsales\b|\bgmv\b|bookings/g],
+];
+const GROWTH_KEYWORDS = /grow|growth|\bmom\b|\byoy\b|month-over-month|year-over-year|increase/;
+const RUNWAY_KEYWORDS = /runway/;
+const MONTH_PERIOD = /^\s*(?:\/\s*|per\s+|a\s+|each\s+)?(?:mo\b|month\b|monthly|mom\b|month-over-month)/;
+const YEAR_PERIOD = /^\s*(?:\/\s*|per\s+|a\s+|each\s+)?(?:yr\b|year\b|annual|annually|yoy\b|year-over-year|p\.?a\.?\b)/;
+
+export interface MoneyAmount {
+  value: number;
+  maxValue: number | null;
+  currency: Currency | null;
+}
+
+type MatchType = 'money' | 'percent' | 'months' | 'people';
+
+interface FigureMatch {
+  type: MatchType;
+  index: number;
+  end: number;
+  value: number;
+  maxValue: number | null;
+  unit: DeckFigureUnit;
+}
+
+function parseNumber(value: string): number {
+  return Number(value.replace(/,/g, ''));
+}
+
+function scaled(value: string, scale: string | undefined): number {
+  return parseNumber(value) * (scale ? SCALES[scale.toLowerCase()] : 1);
+}
+
+// The midpoint of a range like "$8-10B"
+export function moneyValue(amount: MoneyAmount): number {
+  return amount.maxValue !== null ? (amount.value + amount.maxValue) / 2 : amount.value;
+}
+
+// "$2-3M": the lower bound takes the upper bound's scale
+function toMoneyAmount(
+  currency: string | undefined,
+  [low, lowScale, high, highScale]: (string | undefined)[]
+): MoneyAmount {
+  return {
+    value: scaled(low!, lowScale ?? highScale),
+    maxValue: high ? scaled(high, highScale) : null,
+    currency: currency ? CURRENCY_UNITS[currency.trim().toLowerCase()] : null,
+  };
+}
+
+/**
+ * The first money amount in a text such as "$60B" or "8-10 billion USD".
+ * Amounts with a currency symbol or code win over bare ones.
+ */
+export function parseMoneyAmount(text: string): MoneyAmount | null {
+  const match = text.match(new RegExp(MONEY_PATTERN.source, 'i'));
+  if (match) {
+    return toMoneyAmount(match[1], match.slice(2));
+  }
+
+  const bare = Array.from(text.matchAll(BARE_AMOUNT_PATTERN)).find((candidate) => candidate[2] || candidate[4]);
+  if (!bare) return null;
+  const code = text.slice(bare.index! + bare[0].length).match(/^\s*(usd|eur|gbp)\b/i);
+  return toMoneyAmount(code?.[1], bare.slice(1));
+}
+
+function findMatches(clause: string): FigureMatch[] {
+  const matches: FigureMatch[] = [];
+  const add = (match: RegExpMatchArray, type: MatchType, figure: Omit<FigureMatch, 'type' | 'index' | 'end'>) => {
+    matches.push({ type, index: match.index!, end: match.index! + match[0].length, ...figure });
+  };
+
+  Array.from(clause.matchAll(MONEY_PATTERN)).forEach((match) => {
+    const { value, maxValue, currency } = toMoneyAmount(match[1], match.slice(2));
+    add(match, 'money', { value, maxValue, unit: currency! });
+  });
+  Array.from(clause.matchAll(PERCENT_PATTERN)).forEach((match) => {
+    add(match, 'percent', { value: parseNumber(match[1]), maxValue: null, unit: 'percent' });
+  });
+  Array.from(clause.matchAll(MONTHS_PATTERN)).forEach((match) => {
+    add(match, 'months', { value: parseNumber(match[1]), maxValue: match[2] ? parseNumber(match[2]) : null, unit: 'months' });
+  });
+  Array.from(clause.matchAll(PEOPLE_PATTERN)).forEach((match) => {
+    add(match, 'people', { value: parseNumber(match[1] ?? match[2]), maxValue: null, unit: 'people' });
+  });
+
+  // Where matches overlap, e.g. "$3 months", keep the one that starts first
+  return matches
+    .sort((a, b) => a.index - b.index)
+    .filter((match, i, sorted) => i === 0 || match.index >= sorted[i - 1].end);
+}
+
+function lastKeyword(text: string): DeckFigureKind | null {
+  let best: DeckFigureKind | null = null;
+  let bestIndex = -1;
+  MONEY_KEYWORDS.forEach(([kind, pattern]) => {
+    Array.from(text.matchAll(pattern)).forEach((match) => {
+      if (match.index! >= bestIndex) {
+        best = kind;
+        bestIndex = match.index!;
+      }
+    });
+  });
+  return best;
+}
+
+function firstKeyword(text: string): DeckFigureKind | null {
+  let best: DeckFigureKind | null = null;
+  let bestIndex = Infinity;
+  MONEY_KEYWORDS.forEach(([kind, pattern]) => {
+    const match = text.match(new RegExp(pattern.source));
+    if (match && match.index! < bestIndex) {
+      best = kind;
+      bestIndex = match.index!;
+    }
+  });
+  return best;
+}
+
+function classifyMatch(type: MatchType, before: string, after: string): DeckFigureKind | null {
+  switch (type) {
+    case 'money':
+      return lastKeyword(before) ?? firstKeyword(after);
+    case 'percent':
+      return GROWTH_KEYWORDS.test(before) || GROWTH_KEYWORDS.test(after) ? 'growthRate' : null;
+    case 'months':
+      return RUNWAY_KEYWORDS.test(before) || RUNWAY_KEYWORDS.test(after) ? 'runway' : null;
+    case 'people':
+      return 'headcount';
+  }
+}
+
+function getPeriod(after: string): DeckFigure['period'] {
+  if (MONTH_PERIOD.test(after)) return 'month';
+  if (YEAR_PERIOD.test(after)) return 'year';
+  return null;
+}
+
+/**
+ * Finds revenue, growth, burn, runway, headcount, raise and valuation figures
+ * in the deck. Each figure is labelled by the keywords next to it in the same
+ * sentence; the first one found of each kind is kept.
+ */
+export function extractDeckFigures(pages: { number: number; text: string }[]): DeckFigure[] {
+  const figures = new Map<DeckFigureKind, DeckFigure>();
+
+  pages.forEach(({ number, text }) => {
+    text.split(/\n|(?<=[.;!?])\s+|[•|]/).forEach((original) => {
+      const clause = original.toLowerCase();
+      const matches = findMatches(clause);
+      matches.forEach((match, i) => {
+        const before = clause.slice(i > 0 ? matches[i - 1].end : 0, match.index);
+        const after = clause.slice(match.end, i < matches.length - 1 ? matches[i + 1].index : clause.length);
+        const kind = classifyMatch(match.type, before, after);
+        if (!kind || figures.has(kind)) return;
+
+        figures.set(kind, {
+          kind,
+          value: match.value,
+          maxValue: match.maxValue,
+          unit: match.unit,
+          period: match.type === 'money' || match.type === 'percent' ? getPeriod(after) : null,
+          page: number,
+          text: original.slice(match.index, match.end).trim(),
+        });
+      });
+    });
+  });
+
+  return Array.from(figures.values()).sort((a, b) => a.page - b.page);
+}
+
+// Compact amounts like "$1.5M", or "1.5M" without a currency
+export function formatMoney(value: number, currency: Currency | null): string {
+  const [divisor, suffix] = value >= 1e12 ? [1e12, 'T'] : value >= 1e9 ? [1e9, 'B'] : value >= 1e6 ? [1e6, 'M'] : value >= 1e3 ? [1e3, 'K'] : [1, ''];
+  return `${currency ? CURRENCY_SYMBOLS[currency] : ''}${Number((value / divisor).toFixed(2))}${suffix}`;
+}
+
+function formatAmount(value: number, unit: DeckFigureUnit): string {
+  return unit in CURRENCY_SYMBOLS ? formatMoney(value, unit as Currency) : value.toLocaleString('en-US');
+}
+
+const UNIT_SUFFIXES: Partial<Record<DeckFigureUnit, string>> = { percent: '%', months: ' months', people: ' people' };
+
+// "$2M–$3M", "15% / month", "18 months"
+export function formatDeckFigure(figure: DeckFigure): string {
+  const amount = figure.maxValue !== null
+    ? `${formatAmount(figure.value, figure.unit)}–${formatAmount(figure.maxValue, figure.unit)}`
+    : formatAmount(figure.value, figure.unit);
+  const period = figure.period ? ` / ${figure.period}` : '';
+  return `${amount}${UNIT_SUFFIXES[figure.unit] ?? ''}${period}`;
+}
+
+// Every figure but the raise has a key metric of the same name
+export function getDeckFigureMetrics(figures: DeckFigure[]): Partial<KeyMetrics> {
+  return Object.fromEntries(
+    figures.filter((figure) => figure.kind !== 'raise').map((figure) => [figure.kind, formatDeckFigure(figure)])
+  );
+}
@@ -0,0 +1,107 @@
+import { DeckPageSection, DeckSection, InvestmentMemo, MemoCitations } from './analysis';
+
+// Lowercase words and phrases, also matched in the plural; a trailing * marks a stem matched
+// as a prefix. A match on the slide's first line (usually its title) counts extra
+const SECTION_KEYWORDS: Record<DeckSection, string[]> = {
+  problem: ['problem', 'pain point', 'pain', 'challenge', 'frustrat*', 'struggle', 'inefficien*', 'broken'],
+  solution: ['solution', 'our product', 'how it works', 'product', 'platform', 'feature', 'introducing', 'demo'],
+  market: ['market size', 'market', 'tam', 'sam', 'som', 'addressable', 'opportunity', 'segment', 'cagr'],
+  businessModel: ['business model', 'revenue model', 'pricing', 'subscription', 'monetiz*', 'per seat', 'per month', 'commission', 'fee'],
+  traction: ['traction', 'customers', 'users', 'mrr', 'arr', 'milestone', 'pilot', 'retention', 'month-over-month', 'waitlist'],
+  team: ['team', 'founder', 'co-founder', 'ceo', 'cto', 'coo', 'advisor', 'previously', 'ex-*'],
+  competition: ['competition', 'competitor', 'competitive', 'landscape', 'alternative', 'differentiat*', 'moat'],
+  financials: ['financials', 'financial projections', 'projection', 'forecast', 'revenue', 'ebitda', 'p&l', 'break-even', 'gross margin'],
+  ask: ['the ask', 'ask', 'raising', 'use of funds', 'funding', 'seeking', 'investment', 'round'],
+};
+
+const TITLE_WEIGHT = 3;
+const PHRASE_WEIGHT = 2;
+const MIN_SECTION_SCORE = 2;
+
+// Memo sections each deck section feeds
+export const DECK_SECTION_MEMO_FIELDS: Record<DeckSection, (keyof InvestmentMemo)[]> = {
+  problem: ['summary', 'productOverview'],
+  solution: ['summary', 'productOverview'],
+  market: ['marketOpportunity'],
+  businessModel: ['businessModel'],
+  traction: ['goToMarketStrategy'],
+  team: ['teamBackground'],
+  competition: ['competitiveAdvantage'],
+  financials: ['financialProjections'],
+  ask: ['fundingRequirements'],
+};
+
+const keywordPatterns = Object.fromEntries(
+  (Object.entries(SECTION_KEYWORDS) as [DeckSection, string[]][]).map(([section, keywords]) => [
+    section,
+    keywords.map((keyword) => {
+      const stem = keyword.endsWith('*');
+      const escaped = (stem ? keyword.slice(0, -1) : keyword).replace(/[.*+?^${}()|[\]\\&-]/g, '\\$&');
+      return {
+        pattern: new RegExp(`(?:^|[^a-z])${escaped}${stem ? '' : '(?:s|es)?(?![a-z])'}`, 'g'),
+        weight: keyword.includes(' ') ? PHRASE_WEIGHT : 1,
+      };
+    }),
+  ])
+) as Record<DeckSection, { pattern: RegExp; weight: number }[]>;
+
+function scoreSection(section: DeckSection, title: string, body: string): number {
+  return keywordPatterns[section].reduce((score, { pattern, weight }) => {
+    const titleMatches = title.match(pattern)?.length ?? 0;
+    const bodyMatches = body.match(pattern)?.length ?? 0;
+    return score + weight * (titleMatches * TITLE_WEIGHT + bodyMatches);
+  }, 0);
+}
+
+/**
+ * Assigns each slide or page the deck section whose keywords it matches best,
+ * weighting its title. Pages with too little signal get no section.
+ */
+export function classifyDeckPages(pages: { number: number; text: string }[]): DeckPageSection[] {
+  return pages.map(({ number, text }) => {
+    const [title = '', ...rest] = text.toLowerCase().split('\n');
+    const body = rest.join('\n');
+
+    let best: DeckSection | null = null;
+    let bestScore = MIN_SECTION_SCORE - 1;
+    (Object.keys(SECTION_KEYWORDS) as DeckSection[]).forEach((section) => {
+      const score = scoreSection(section, title, body);
+      if (score > bestScore) {
+        best = section;
+        bestScore = score;
+      }
+    });
+
+    return { number, section: best };
+  });
+}
+
+export function getMemoCitations(sections: DeckPageSection[]): MemoCitations {
+  const citations: MemoCitations = {};
+  sections.forEach(({ number, section }) => {
+    if (!section) return;
+    DECK_SECTION_MEMO_FIELDS[section].forEach((field) => {
+      citations[field] = [...(citations[field] ?? []), number];
+    });
+  });
+  return citations;
+}
+
+// The text of the pages cited for each memo section, for the prompt and for filling sections the model left out
+export function getMemoSourceText(
+  pages: { number: number; text: string }[],
+  citations: MemoCitations
+): Partial<Record<keyof InvestmentMemo, string>> {
+  const textByPage = new Map(pages.map((page) => [page.number, page.text.replace(/\s+/g, ' ').trim()]));
+  const sourceText: Partial<Record<keyof InvestmentMemo, string>> = {};
+  (Object.entries(citations) as [keyof InvestmentMemo, number[]][]).forEach(([field, numbers]) => {
+    sourceText[field] = numbers.map((number) => textByPage.get(number) ?? '').filter(Boolean).join(' ');
+  });
+  return sourceText;
+}
+
+// "Slide 4" or "Pages 2, 3"; `slides` is false for PDF decks, which have pages
+export function formatDeckCitation(numbers: number[], slides: boolean): string {
+  const unit = slides ? 'Slide' : 'Page';
+  return `${numbers.length === 1 ? unit : `${unit}s`} ${numbers.join(', ')}`;
+}
@@ -0,0 +1,56 @@
+// `data` is parsed JSON; its shape depends on `event`, so callers narrow it by name
+export interface ServerEvent {
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Reads a text/event-stream response body and calls `onEvent` for every
+ * complete event. EventSource can't be used because it only supports GET.
+ * Events whose data isn't valid JSON are logged and skipped.
+ */
+export async function readEventStream(response: Response, onEvent: (event: ServerEvent) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('The response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      let data = '';
+      chunk.split('\n').forEach((line) => {
+        if (line.startsWith('event: ')) {
+          event = line.slice('event: '.length);
+        } else if (line.startsWith('data: ')) {
+          data += line.slice('data: '.length);
+        }
+      });
+
+      if (data) {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(data);
+        } catch (error) {
+          console.error(`Skipping malformed "${event}" event:`, error);
+        }
+        if (parsed !== undefined) {
+          onEvent({ event, data: parsed });
+        }
+      }
+      boundary = buffer.indexOf('\n\n');
+    }
+  }
+}
@@ -0,0 +1,48 @@
+// Entries of the idea library: the built-in catalogue in app/data/startupIdeas.ts plus the team's own ideas
+
+export interface LibraryIdeaFields {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+export interface LibraryIdeaScore {
+  globalScore: number;
+  analyzedAt: string;
+}
+
+export interface LibraryIdea extends LibraryIdeaFields {
+  id: string;
+  // Built-in entries can be analyzed but not edited or deleted
+  builtIn: boolean;
+  createdAt: string | null;
+  updatedAt: string | null;
+  latestScore: LibraryIdeaScore | null;
+}
+
+// Validates a request body with the editable fields; null when anything is missing or mistyped
+export function parseLibraryIdeaFields(value: unknown): LibraryIdeaFields | null {
+  const body = value as Partial<Record<keyof LibraryIdeaFields, unknown>> | null;
+  if (!body || typeof body.title !== 'string' || !body.title.trim()) return null;
+  if (typeof body.description !== 'string') return null;
+  if (!Array.isArray(body.keywords) || !body.keywords.every((keyword) => typeof keyword === 'string')) return null;
+  return { title: body.title, description: body.description, keywords: body.keywords };
+}
+
+// The text put in the query box when an entry is analyzed
+export function libraryIdeaQuery(idea: LibraryIdeaFields): string {
+  return `${idea.title}: ${idea.description}`;
+}
+
+// Case-insensitive match on the title, description and keywords; every selected keyword must be present
+export function filterLibraryIdeas(ideas: LibraryIdea[], search: string, keywords: string[]): LibraryIdea[] {
+  const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+  const selected = keywords.map((keyword) => keyword.toLowerCase());
+
+  return ideas.filter((idea) => {
+    const ideaKeywords = idea.keywords.map((keyword) => keyword.toLowerCase());
+    const text = [idea.title, idea.description, ...idea.keywords].join(' ').toLowerCase();
+    return terms.every((term) => text.includes(term))
+      && selected.every((keyword) => ideaKeywords.includes(keyword));
+  });
+}
@@ -0,0 +1,104 @@
+import { AnalysisResult, BottomUpMarketSize, KEY_METRIC_LABELS, KeyMetrics } from './analysis';
+import { formatMoney, MoneyAmount, moneyValue, parseMoneyAmount } from './deckFigures';
+
+export type MarketSizeLevel = 'tam' | 'sam' | 'som';
+
+// Outermost first: TAM contains SAM contains SOM
+export const MARKET_SIZE_LEVELS: MarketSizeLevel[] = ['tam', 'sam', 'som'];
+
+// Placeholders filled in for sizes the model didn't give
+const NOT_AVAILABLE = /^(?:n\/a|not available)$/i;
+
+export type MarketSizes = Record<MarketSizeLevel, MoneyAmount | null>;
+
+// A size without a currency may be a count, like "10 million users", so it's left out when the others have one
+export function parseMarketSizes(keyMetrics: Pick<KeyMetrics, MarketSizeLevel>): MarketSizes {
+  const sizes: MarketSizes = {
+    tam: parseMoneyAmount(keyMetrics.tam || ''),
+    sam: parseMoneyAmount(keyMetrics.sam || ''),
+    som: parseMoneyAmount(keyMetrics.som || ''),
+  };
+  if (MARKET_SIZE_LEVELS.some((level) => sizes[level]?.currency)) {
+    MARKET_SIZE_LEVELS.forEach((level) => {
+      if (sizes[level] && !sizes[level]!.currency) sizes[level] = null;
+    });
+  }
+  return sizes;
+}
+
+/**
+ * Flags market sizes that aren't amounts or lack the currency the others have,
+ * can't be compared because their currencies differ, or don't nest as
+ * SOM ≤ SAM ≤ TAM.
+ */
+export function checkMarketSizes(keyMetrics: Pick<KeyMetrics, MarketSizeLevel>, sizes: MarketSizes): string[] {
+  const warnings: string[] = [];
+  MARKET_SIZE_LEVELS.forEach((level) => {
+    const text = keyMetrics[level]?.trim() ?? '';
+    if (!text || NOT_AVAILABLE.test(text) || sizes[level]) return;
+    warnings.push(parseMoneyAmount(text)
+      ? `${KEY_METRIC_LABELS[level]} ("${keyMetrics[level]}") has no currency, so it isn't charted with the other market sizes.`
+      : `${KEY_METRIC_LABELS[level]} ("${keyMetrics[level]}") isn't an amount that can be charted.`);
+  });
+
+  const known = MARKET_SIZE_LEVELS.filter((level) => sizes[level] !== null);
+  const currencies = new Set(known.map((level) => sizes[level]!.currency).filter(Boolean));
+  if (currencies.size > 1) {
+    warnings.push('The market sizes are in different currencies, so they can\'t be compared.');
+    return warnings;
+  }
+
+  known.slice(1).forEach((inner, index) => {
+    const outer = known[index];
+    if (moneyValue(sizes[inner]!) > moneyValue(sizes[outer]!)) {
+      warnings.push(`${KEY_METRIC_LABELS[inner]} (${keyMetrics[inner]}) is larger than ${KEY_METRIC_LABELS[outer]} (${keyMetrics[outer]}).`);
+    }
+  });
+  return warnings;
+}
+
+// Each circle's radius relative to the largest, so that the areas are in true proportion
+export function getMarketSizeScales(sizes: MarketSizes): Record<MarketSizeLevel, number | null> {
+  const largest = Math.max(0, ...MARKET_SIZE_LEVELS.map((level) => (sizes[level] ? moneyValue(sizes[level]!) : 0)));
+  return {
+    tam: sizes.tam && largest > 0 ? Math.sqrt(moneyValue(sizes.tam) / largest) : null,
+    sam: sizes.sam && largest > 0 ? Math.sqrt(moneyValue(sizes.sam) / largest) : null,
+    som: sizes.som && largest > 0 ? Math.sqrt(moneyValue(sizes.som) / largest) : null,
+  };
+}
+
+export function validateBottomUpMarketSize({ customers, annualPrice, penetration }: BottomUpMarketSize): string[] {
+  const errors: string[] = [];
+  if (!Number.isFinite(customers) || customers <= 0) {
+    errors.push('Enter the number of potential customers.');
+  }
+  if (!Number.isFinite(annualPrice) || annualPrice <= 0) {
+    errors.push('Enter the yearly price per customer.');
+  }
+  if (!Number.isFinite(penetration) || penetration <= 0 || penetration > 100) {
+    errors.push('Penetration must be between 0 and 100%.');
+  }
+  return errors;
+}
+
+// Customers × yearly price is the serviceable market; the penetration of it is the obtainable one
+export function calculateBottomUpMarketSize({ customers, annualPrice, penetration }: BottomUpMarketSize): { sam: number; som: number } {
+  const sam = customers * annualPrice;
+  return { sam, som: sam * (penetration / 100) };
+}
+
+export function applyBottomUpMarketSize(result: AnalysisResult, inputs: BottomUpMarketSize): AnalysisResult {
+  const { sam, som } = calculateBottomUpMarketSize(inputs);
+  return {
+    ...result,
+    investmentMemo: {
+      ...result.investmentMemo,
+      keyMetrics: {
+        ...result.investmentMemo.keyMetrics,
+        sam: formatMoney(sam, inputs.currency),
+        som: formatMoney(som, inputs.currency),
+      },
+    },
+    bottomUpMarketSize: inputs,
+  };
+}
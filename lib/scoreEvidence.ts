@@ -0,0 +1,52 @@
+import { ScoreEvidence } from './analysis';
+
+export const MAX_SCORE_EVIDENCE = 3;
+
+// Shorter quotes would match almost any deck
+const MIN_QUOTE_WORDS = 3;
+
+// Extracted text and the model's copy of it differ in case, spacing and typographic quotes and dashes
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The model often wraps quotes in quote marks or ellipses
+function trimQuote(quote: string): string {
+  return quote.replace(/^(?:\s|["'“”‘’]|\.\.\.|…)+|(?:\s|["'“”‘’]|\.\.\.|…)+$/g, '');
+}
+
+/**
+ * Keeps the quotes that occur verbatim in the deck's extracted text, at most
+ * MAX_SCORE_EVIDENCE of them. The page the model gave is only a hint: a quote
+ * found on another page is moved there. Quotes that aren't in the deck, or are
+ * too short to show anything, are dropped.
+ */
+export function verifyEvidence(
+  evidence: ScoreEvidence[],
+  pages: { number: number; text: string }[]
+): ScoreEvidence[] {
+  const normalizedPages = pages.map((page) => ({ number: page.number, text: normalizeText(page.text) }));
+  const verified: ScoreEvidence[] = [];
+
+  evidence.forEach(({ quote, page }) => {
+    const trimmed = trimQuote(quote.replace(/\s+/g, ' '));
+    const normalized = normalizeText(trimmed);
+    if (normalized.split(' ').length < MIN_QUOTE_WORDS) return;
+    if (verified.some((item) => normalizeText(item.quote) === normalized)) return;
+
+    const match =
+      normalizedPages.find((candidate) => candidate.number === page && candidate.text.includes(normalized)) ??
+      normalizedPages.find((candidate) => candidate.text.includes(normalized));
+    if (match) {
+      verified.push({ quote: trimmed, page: match.number });
+    }
+  });
+
+  return verified.slice(0, MAX_SCORE_EVIDENCE);
+}
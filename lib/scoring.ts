@@ -0,0 +1,100 @@
+import { parseStartupStage, StartupStage } from './stageRubric';
+
+export interface Weights {
+  tech: number;
+  gtm: number;
+  investmentMemo: number;
+}
+
+export interface SubScores {
+  techScore: number;
+  gtmScore: number;
+  confidenceScore: number;
+}
+
+export const DEFAULT_WEIGHTS: Weights = { tech: 0.3, gtm: 0.3, investmentMemo: 0.4 };
+
+// Earlier stages lean on the quality of the thesis, later ones on go-to-market execution
+export const STAGE_WEIGHT_PRESETS: Record<StartupStage, Weights> = {
+  idea: { tech: 0.25, gtm: 0.25, investmentMemo: 0.5 },
+  'pre-seed': DEFAULT_WEIGHTS,
+  seed: { tech: 0.3, gtm: 0.35, investmentMemo: 0.35 },
+  'series-a': { tech: 0.25, gtm: 0.4, investmentMemo: 0.35 },
+  growth: { tech: 0.2, gtm: 0.45, investmentMemo: 0.35 },
+};
+
+const WEIGHT_KEYS: (keyof Weights)[] = ['tech', 'gtm', 'investmentMemo'];
+
+export function getStageWeights(startupStage: string): Weights {
+  const stage = parseStartupStage(startupStage);
+  return stage ? STAGE_WEIGHT_PRESETS[stage] : DEFAULT_WEIGHTS;
+}
+
+export function normalizeScore(score: number): number {
+  return Math.min(Math.max(score, 0), 100); // Ensure score is between 0% and 100%
+}
+
+export function calculateWeightedScore(scores: number[], weights: number[]): number {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  return scores.reduce((sum, score, index) => sum + score * weights[index], 0) / totalWeight;
+}
+
+export function calculateGlobalScore(scores: SubScores, weights: Weights): number {
+  return normalizeScore(calculateWeightedScore(
+    [scores.techScore, scores.gtmScore, scores.confidenceScore],
+    [weights.tech, weights.gtm, weights.investmentMemo]
+  ));
+}
+
+export function validateWeights(weights: Partial<Record<keyof Weights, unknown>>): string[] {
+  const errors: string[] = [];
+
+  Object.keys(weights).forEach((key) => {
+    if (!WEIGHT_KEYS.includes(key as keyof Weights)) {
+      errors.push(`Unknown weight "${key}"`);
+    }
+  });
+
+  WEIGHT_KEYS.forEach((key) => {
+    const value = weights[key];
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`Weight "${key}" must be a number`);
+    } else if (value < 0) {
+      errors.push(`Weight "${key}" must not be negative`);
+    }
+  });
+
+  return errors;
+}
+
+// Scales weights so they sum to 1, so "2/2/1" and "0.4/0.4/0.2" mean the same thing
+export function normalizeWeights(weights: Weights): Weights {
+  const total = weights.tech + weights.gtm + weights.investmentMemo;
+  return {
+    tech: weights.tech / total,
+    gtm: weights.gtm / total,
+    investmentMemo: weights.investmentMemo / total,
+  };
+}
+
+/**
+ * Applies request-supplied weights on top of the stage preset. Returns the
+ * normalized weights, or the validation errors if they cannot be used.
+ */
+export function resolveWeights(
+  startupStage: string,
+  customWeights: Partial<Record<keyof Weights, unknown>>
+): { weights: Weights; errors: string[] } {
+  const errors = validateWeights(customWeights);
+  const merged = { ...getStageWeights(startupStage), ...customWeights } as Weights;
+
+  if (errors.length === 0 && merged.tech + merged.gtm + merged.investmentMemo <= 0) {
+    errors.push('At least one weight must be greater than zero');
+  }
+  if (errors.length > 0) {
+    return { weights: getStageWeights(startupStage), errors };
+  }
+
+  return { weights: normalizeWeights(merged), errors };
+}
@@ -0,0 +1,129 @@
+import { StageRubric } from './stageRubric';
+
+// A team's own due diligence criteria, used instead of the stage rubric's when picked for an analysis
+
+export type RubricCategory = 'tech' | 'gtm';
+
+export const RUBRIC_CATEGORY_LABELS: Record<RubricCategory, string> = {
+  tech: 'Tech',
+  gtm: 'Go-to-Market',
+};
+
+export interface RubricCriterion {
+  name: string;
+  description: string;
+  category: RubricCategory;
+  // Relative to the other criteria of its category
+  weight: number;
+  // How to score it, e.g. "90+ for SOC 2 certified, below 40 with no security review"
+  guidance: string;
+}
+
+export interface ScoringRubricFields {
+  name: string;
+  description: string;
+  criteria: RubricCriterion[];
+}
+
+export interface ScoringRubric extends ScoringRubricFields {
+  id: string;
+  // Starts at 1 and goes up with every edit; saved analyses keep the version they were scored with
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// What a result keeps of the rubric that produced its scores
+export type RubricSnapshot = Pick<ScoringRubric, 'id' | 'name' | 'version' | 'criteria'>;
+
+export const MAX_CATEGORY_CRITERIA = 8;
+
+/**
+ * Checks a request body with the editable fields of a rubric. Each category
+ * needs at least one criterion, since the tech and GTM scores are computed
+ * from them.
+ */
+export function validateScoringRubricFields(value: unknown): string[] {
+  const body = value as Partial<Record<keyof ScoringRubricFields, unknown>> | null;
+  if (!body || typeof body !== 'object') return ['A rubric must be a JSON object'];
+
+  const errors: string[] = [];
+  if (typeof body.name !== 'string' || !body.name.trim()) errors.push('A rubric needs a name');
+  if (body.description !== undefined && typeof body.description !== 'string') errors.push('description must be a string');
+  if (!Array.isArray(body.criteria)) return [...errors, 'criteria must be a list'];
+  const criteria: (Partial<Record<keyof RubricCriterion, unknown>> | null)[] = body.criteria;
+
+  const names = new Set<string>();
+  criteria.forEach((criterion, index) => {
+    const label = `Criterion ${index + 1}`;
+    if (!criterion || typeof criterion !== 'object') {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof criterion.name !== 'string' || !criterion.name.trim()) {
+      errors.push(`${label} needs a name`);
+    } else if (names.has(criterion.name.trim().toLowerCase())) {
+      errors.push(`${label}: "${criterion.name.trim()}" is already a criterion`);
+    } else {
+      names.add(criterion.name.trim().toLowerCase());
+    }
+    if (criterion.category !== 'tech' && criterion.category !== 'gtm') {
+      errors.push(`${label}: category must be "tech" or "gtm"`);
+    }
+    if (typeof criterion.weight !== 'number' || !Number.isFinite(criterion.weight) || criterion.weight <= 0) {
+      errors.push(`${label}: weight must be a number greater than zero`);
+    }
+    if (criterion.description !== undefined && typeof criterion.description !== 'string') {
+      errors.push(`${label}: description must be a string`);
+    }
+    if (criterion.guidance !== undefined && typeof criterion.guidance !== 'string') {
+      errors.push(`${label}: guidance must be a string`);
+    }
+  });
+
+  (Object.keys(RUBRIC_CATEGORY_LABELS) as RubricCategory[]).forEach((category) => {
+    const count = criteria.filter((criterion) => criterion?.category === category).length;
+    if (count === 0) {
+      errors.push(`A rubric needs at least one ${RUBRIC_CATEGORY_LABELS[category]} criterion`);
+    } else if (count > MAX_CATEGORY_CRITERIA) {
+      errors.push(`A rubric can have at most ${MAX_CATEGORY_CRITERIA} ${RUBRIC_CATEGORY_LABELS[category]} criteria`);
+    }
+  });
+
+  return errors;
+}
+
+// Only call on fields that passed validateScoringRubricFields
+export function normalizeScoringRubricFields(fields: ScoringRubricFields): ScoringRubricFields {
+  return {
+    name: fields.name.trim(),
+    description: fields.description?.trim() ?? '',
+    criteria: fields.criteria.map(({ name, description, category, weight, guidance }) => ({
+      name: name.trim(),
+      description: description?.trim() ?? '',
+      category,
+      weight,
+      guidance: guidance?.trim() ?? '',
+    })),
+  };
+}
+
+// The stage rubric's criteria, equally weighted, for analyses without a team rubric
+export function getStageCriteria(rubric: StageRubric): RubricCriterion[] {
+  const toCriterion = (category: RubricCategory) => (name: string): RubricCriterion => ({
+    name,
+    description: '',
+    category,
+    weight: 1,
+    guidance: '',
+  });
+  return [...rubric.techCriteria.map(toCriterion('tech')), ...rubric.gtmCriteria.map(toCriterion('gtm'))];
+}
+
+export function getCategoryCriteria(criteria: RubricCriterion[], category: RubricCategory): RubricCriterion[] {
+  return criteria.filter((criterion) => criterion.category === category);
+}
+
+export function toRubricSnapshot({ id, name, version, criteria }: ScoringRubric): RubricSnapshot {
+  return { id, name, version, criteria };
+}
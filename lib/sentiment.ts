@@ -0,0 +1,160 @@
+import {
+  SectionSentiment,
+  SentimentLabel,
+  SentimentPassage,
+  SentimentScores,
+  SentimentSection,
+  SwotAnalysis,
+} from './analysis';
+
+// Word weights from -3 to 3, tuned to the language of pitches and analyses
+const LEXICON: Record<string, number> = {
+  // Positive
+  accelerate: 2, accelerating: 2, achieve: 2, achieved: 2, advantage: 2, advantages: 2, attractive: 2,
+  benefit: 2, benefits: 1, best: 3, better: 2, breakthrough: 3, clear: 1, competitive: 1, confident: 2,
+  differentiated: 2, disruptive: 2, easy: 1, efficient: 2, effective: 2, excellent: 3, exceptional: 3,
+  expand: 1, expanding: 1, experienced: 2, fast: 1, gain: 2, gains: 2, good: 2, great: 3, grow: 2,
+  growing: 2, growth: 2, high: 1, improve: 2, improved: 2, improves: 2, innovative: 2, leader: 2,
+  leading: 2, loyal: 2, love: 3, loved: 3, opportunity: 2, opportunities: 2, popular: 2, profit: 2,
+  profitable: 3, proven: 2, robust: 2, save: 2, saves: 2, savings: 2, scalable: 2, secure: 1, simple: 1,
+  strong: 2, stronger: 2, success: 3, successful: 3, traction: 2, trusted: 2, unique: 2, valuable: 2,
+  win: 3, winning: 3,
+  // Negative
+  bad: -3, barrier: -2, barriers: -2, burden: -2, challenge: -1, challenges: -1, challenging: -2,
+  churn: -2, competition: -1, complex: -1, concern: -2, concerns: -2, costly: -2, crowded: -2,
+  decline: -2, declining: -2, delay: -2, delays: -2, dependent: -1, dependency: -1, difficult: -2,
+  difficulty: -2, expensive: -2, fail: -3, failed: -3, failure: -3, fragmented: -1, hard: -1,
+  inefficient: -2, lack: -2, lacks: -2, limited: -2, loss: -3, losses: -3, low: -1, manual: -1,
+  negative: -2, obstacle: -2, obstacles: -2, pain: -2, poor: -3, problem: -2, problems: -2, risk: -2,
+  risks: -2, risky: -2, saturated: -2, shortage: -2, slow: -2, slowing: -2, struggle: -2, struggling: -2,
+  threat: -2, threats: -2, uncertain: -2, uncertainty: -2, unproven: -2, unclear: -2, weak: -2,
+  weakness: -2, weaknesses: -2, worse: -3, worst: -3,
+};
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'hardly', 'barely', 'cannot', "can't", "don't", "doesn't", "isn't", "aren't", "won't"]);
+const INTENSIFIERS: Record<string, number> = { very: 1.5, extremely: 2, highly: 1.5, significantly: 1.5, severely: 2, really: 1.5 };
+
+// A negation flips the next scored word within this many words
+const NEGATION_WINDOW = 3;
+
+// Overall share difference needed for a positive or negative label
+const LABEL_THRESHOLD = 0.1;
+
+const MAX_NEGATIVE_PASSAGES = 5;
+const MAX_PASSAGE_LENGTH = 240;
+// Shorter lines are slide titles like "The Problem" rather than passages
+const MIN_PASSAGE_WORDS = 4;
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n|(?<=[.;!?])\s+|[•|]/)
+    .map((sentence) => sentence.replace(/\s+/g, ' ').trim())
+    .filter((sentence) => /[a-z]/i.test(sentence));
+}
+
+/**
+ * Sum of the word weights in a sentence. "not profitable" and "no risk" flip
+ * the sign of the word they negate; "very" and the like scale the next word.
+ */
+export function scoreSentence(sentence: string): number {
+  const words = sentence.toLowerCase().match(/[a-z]+(?:'[a-z]+)?/g) ?? [];
+  let score = 0;
+  let negatedUntil = -1;
+  let intensity = 1;
+
+  words.forEach((word, i) => {
+    if (NEGATIONS.has(word)) {
+      negatedUntil = i + NEGATION_WINDOW;
+      return;
+    }
+    if (word in INTENSIFIERS) {
+      intensity = INTENSIFIERS[word];
+      return;
+    }
+    const weight = LEXICON[word];
+    if (weight === undefined) return;
+
+    score += weight * intensity * (i <= negatedUntil ? -1 : 1);
+    negatedUntil = -1;
+    intensity = 1;
+  });
+
+  return score;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toScores(sentenceScores: number[]): SentimentScores {
+  const count = sentenceScores.length || 1;
+  const positive = round(sentenceScores.filter((score) => score > 0).length / count);
+  const negative = round(sentenceScores.filter((score) => score < 0).length / count);
+  // From the rounded shares, so the three always add up to 1
+  return { positive, negative, neutral: round(1 - positive - negative) };
+}
+
+export function getSentimentLabel(scores: SentimentScores): SentimentLabel {
+  const balance = scores.positive - scores.negative;
+  if (balance > LABEL_THRESHOLD) return 'positive';
+  if (balance < -LABEL_THRESHOLD) return 'negative';
+  return 'neutral';
+}
+
+function truncatePassage(text: string): string {
+  return text.length > MAX_PASSAGE_LENGTH ? `${text.slice(0, MAX_PASSAGE_LENGTH - 1)}…` : text;
+}
+
+export interface SentimentInput {
+  idea: string;
+  deckPages: { number: number; text: string }[];
+  swot: SwotAnalysis;
+}
+
+export interface SentimentAnalysis {
+  overallSentiment: SentimentLabel;
+  sentimentScores: SentimentScores;
+  sectionSentiment: Partial<Record<SentimentSection, SectionSentiment>>;
+  negativePassages: SentimentPassage[];
+}
+
+/**
+ * Lexicon-based sentiment over the idea, the deck and the SWOT analysis.
+ * Scores are the shares of positive, neutral and negative sentences; the
+ * overall scores count every sentence of every section. Runs locally, so the
+ * same text always gets the same result.
+ */
+export function analyzeSentiment({ idea, deckPages, swot }: SentimentInput): SentimentAnalysis {
+  const deckSentences = deckPages.flatMap(({ number, text }) =>
+    splitSentences(text).map((sentence) => ({ page: number, text: sentence, score: scoreSentence(sentence) }))
+  );
+  const swotItems = [...swot.strengths, ...swot.weaknesses, ...swot.opportunities, ...swot.threats];
+
+  const sectionScores: Record<SentimentSection, number[]> = {
+    idea: splitSentences(idea).map(scoreSentence),
+    deck: deckSentences.map((sentence) => sentence.score),
+    swot: swotItems.flatMap(splitSentences).map(scoreSentence),
+  };
+
+  const sectionSentiment: Partial<Record<SentimentSection, SectionSentiment>> = {};
+  (Object.keys(sectionScores) as SentimentSection[]).forEach((section) => {
+    const scores = sectionScores[section];
+    if (scores.length === 0) return;
+    const sentiment = toScores(scores);
+    sectionSentiment[section] = { label: getSentimentLabel(sentiment), scores: sentiment };
+  });
+
+  const sentimentScores = toScores(Object.values(sectionScores).flat());
+  const negativePassages = deckSentences
+    .filter((sentence) => sentence.score < 0 && sentence.text.split(' ').length >= MIN_PASSAGE_WORDS)
+    .sort((a, b) => a.score - b.score || a.page - b.page)
+    .slice(0, MAX_NEGATIVE_PASSAGES)
+    .map((sentence) => ({ ...sentence, text: truncatePassage(sentence.text) }));
+
+  return {
+    overallSentiment: getSentimentLabel(sentimentScores),
+    sentimentScores,
+    sectionSentiment,
+    negativePassages,
+  };
+}
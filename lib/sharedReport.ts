@@ -0,0 +1,92 @@
+import { AnalysisResult, DueDiligencePoint, KeyMetrics } from './analysis';
+
+// Sections the sender can leave out of a shared report
+export type HideableReportSection = 'financialProjections' | 'fundingRequirements' | 'keyMetrics';
+
+export const HIDEABLE_REPORT_SECTIONS: Record<HideableReportSection, string> = {
+  financialProjections: 'Financial Projections',
+  fundingRequirements: 'Funding Requirements',
+  keyMetrics: 'Key Metrics',
+};
+
+export type SharedReportStatus = 'active' | 'expired' | 'revoked';
+
+export interface SharedReportSummary {
+  id: string;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  hiddenSections: HideableReportSection[];
+  analysisId: string | null;
+  idea: string;
+}
+
+// The inputs name the deck file, so they are left out of the snapshot
+export type SharedReportResult = Omit<AnalysisResult, 'inputs'>;
+
+export interface SharedReport extends Omit<SharedReportSummary, 'idea'> {
+  result: SharedReportResult;
+}
+
+export function isHideableReportSection(value: unknown): value is HideableReportSection {
+  return typeof value === 'string' && value in HIDEABLE_REPORT_SECTIONS;
+}
+
+export function getSharedReportStatus(report: SharedReportSummary | SharedReport, now = new Date()): SharedReportStatus {
+  if (report.revokedAt) return 'revoked';
+  if (report.expiresAt && new Date(report.expiresAt) <= now) return 'expired';
+  return 'active';
+}
+
+// Key metrics that are only ever read from the deck's financial slides
+const DECK_FINANCIAL_KEY_METRICS: (keyof KeyMetrics)[] = ['arr', 'mrr', 'revenue', 'growthRate', 'runway', 'headcount', 'valuation'];
+
+function withoutEvidence(points: DueDiligencePoint[]): DueDiligencePoint[] {
+  return points.map(({ evidence, ...point }) => point);
+}
+
+/**
+ * Blanks out hidden sections before a result is stored for sharing, so they
+ * never reach the recipient rather than just not being rendered. Verbatim deck
+ * quotes are always dropped, since they can repeat figures from any section.
+ */
+export function redactResult(result: AnalysisResult, hiddenSections: HideableReportSection[]): SharedReportResult {
+  const { inputs, negativePassages, ...shared } = result;
+  const investmentMemo = { ...result.investmentMemo, keyMetrics: { ...result.investmentMemo.keyMetrics } };
+  const investmentMemoScoreExplanations = result.investmentMemoScoreExplanations && Object.fromEntries(
+    Object.entries(result.investmentMemoScoreExplanations).map(([key, explanation]) => [key, { ...explanation, evidence: [] }])
+  ) as AnalysisResult['investmentMemoScoreExplanations'];
+  let deckFigures = result.deckFigures;
+  let bottomUpMarketSize = result.bottomUpMarketSize;
+  let unitEconomics = result.unitEconomics;
+
+  hiddenSections.forEach((section) => {
+    if (section === 'keyMetrics') {
+      investmentMemo.keyMetrics = { tam: '', sam: '', som: '', cac: '', ltv: '', burnRate: '' };
+      deckFigures = deckFigures?.filter((figure) => figure.kind === 'raise');
+      bottomUpMarketSize = undefined;
+      unitEconomics = undefined;
+    } else {
+      investmentMemo[section] = '';
+      // The rationale can quote the section's slides
+      delete investmentMemoScoreExplanations?.[section];
+      if (section === 'fundingRequirements') {
+        deckFigures = deckFigures?.filter((figure) => figure.kind !== 'raise');
+      } else if (section === 'financialProjections') {
+        deckFigures = deckFigures?.filter((figure) => figure.kind === 'raise');
+        DECK_FINANCIAL_KEY_METRICS.forEach((key) => delete investmentMemo.keyMetrics[key]);
+      }
+    }
+  });
+
+  return {
+    ...shared,
+    investmentMemo,
+    investmentMemoScoreExplanations,
+    dueDiligenceTech: withoutEvidence(result.dueDiligenceTech),
+    dueDiligenceGTM: withoutEvidence(result.dueDiligenceGTM),
+    deckFigures,
+    bottomUpMarketSize,
+    unitEconomics,
+  };
+}
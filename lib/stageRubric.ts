@@ -0,0 +1,93 @@
+export type StartupStage = 'idea' | 'pre-seed' | 'seed' | 'series-a' | 'growth';
+
+// What an analysis at each stage is judged on. The criteria become the due diligence points.
+export interface StageRubric {
+  stage: StartupStage;
+  label: string;
+  expectations: string[];
+  techCriteria: string[];
+  gtmCriteria: string[];
+}
+
+// Its weights match the defaults, so requests without a stage score as before
+export const DEFAULT_STARTUP_STAGE: StartupStage = 'pre-seed';
+
+export const STAGE_RUBRICS: Record<StartupStage, StageRubric> = {
+  idea: {
+    stage: 'idea',
+    label: 'Idea',
+    expectations: [
+      'A specific, painful problem for a clearly defined customer',
+      'Evidence the founders understand the problem firsthand',
+      'No product or revenue is expected yet',
+    ],
+    techCriteria: ['Technical feasibility', 'Build effort for a first prototype', 'Founder ability to build or hire for it'],
+    gtmCriteria: ['Problem urgency for the target customer', 'Reachability of the first customers', 'Early validation signals'],
+  },
+  'pre-seed': {
+    stage: 'pre-seed',
+    label: 'Pre-seed',
+    expectations: [
+      'A prototype or MVP in the hands of first users',
+      'Qualitative validation from customer conversations',
+      'A founding team covering product and go-to-market',
+    ],
+    techCriteria: ['MVP scope and quality', 'Technical risk in the core product', 'Speed of iteration'],
+    gtmCriteria: ['First user engagement', 'Clarity of the ideal customer profile', 'Plan for the first acquisition channel'],
+  },
+  seed: {
+    stage: 'seed',
+    label: 'Seed',
+    expectations: [
+      'Early product-market fit signals such as retention or repeat usage',
+      'First revenue or strong usage growth',
+      'A repeatable acquisition channel being tested',
+    ],
+    techCriteria: ['Product maturity and reliability', 'Defensibility of the technology', 'Ability to scale the architecture'],
+    gtmCriteria: ['Retention and repeat usage', 'Acquisition channel economics', 'Revenue or usage growth rate'],
+  },
+  'series-a': {
+    stage: 'series-a',
+    label: 'Series A',
+    expectations: [
+      'Proven product-market fit with consistent revenue growth',
+      'Unit economics that work at the current scale',
+      'A go-to-market motion ready to scale with more capital',
+    ],
+    techCriteria: ['Platform scalability and reliability', 'Security and compliance readiness', 'Engineering team and velocity'],
+    gtmCriteria: ['Revenue growth and predictability', 'CAC payback and LTV:CAC', 'Sales and marketing repeatability'],
+  },
+  growth: {
+    stage: 'growth',
+    label: 'Growth',
+    expectations: [
+      'Market leadership or a clear path to it',
+      'Efficient growth with a path to profitability',
+      'Expansion into new segments, products or geographies',
+    ],
+    techCriteria: ['Infrastructure cost at scale', 'Platform extensibility for new products', 'Operational maturity'],
+    gtmCriteria: ['Net revenue retention', 'Expansion into new markets', 'Margin and path to profitability'],
+  },
+};
+
+// Spellings accepted from forms, CSV batches and analyses saved before the stages were fixed
+const STAGE_ALIASES: Record<string, StartupStage> = {
+  idea: 'idea',
+  preseed: 'pre-seed',
+  'pre-seed': 'pre-seed',
+  early: 'pre-seed',
+  seed: 'seed',
+  'series-a': 'series-a',
+  growth: 'growth',
+};
+
+// "Series A", "series-a" and "Pre Seed" all map to a stage; anything else is null
+export function parseStartupStage(value: string): StartupStage | null {
+  const key = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return STAGE_ALIASES[key] ?? null;
+}
+
+export function getStageRubric(stage: string): StageRubric | null {
+  const parsed = parseStartupStage(stage);
+  return parsed ? STAGE_RUBRICS[parsed] : null;
+}
@@ -0,0 +1,160 @@
+import { AnalysisResult, Currency, IndustryAverages, UnitEconomicsInputs } from './analysis';
+import { formatMoney, MoneyAmount, moneyValue, parseMoneyAmount } from './deckFigures';
+
+export type UnitEconomicsMetric = 'ltv' | 'cac' | 'ltvToCac' | 'cacPayback' | 'monthlyBurn' | 'runway';
+
+export type BenchmarkComparison = 'above' | 'below' | 'in line';
+
+export interface UnitEconomicsRow {
+  metric: UnitEconomicsMetric;
+  label: string;
+  value: number | null;
+  benchmark: number | null;
+  benchmarkSource: 'industry' | 'rule of thumb' | null;
+  comparison: BenchmarkComparison | null;
+  // null when in line with the benchmark or when there's nothing to compare
+  favorable: boolean | null;
+}
+
+const METRICS: { metric: UnitEconomicsMetric; label: string; higherIsBetter: boolean }[] = [
+  { metric: 'ltv', label: 'LTV', higherIsBetter: true },
+  { metric: 'cac', label: 'CAC', higherIsBetter: false },
+  { metric: 'ltvToCac', label: 'LTV:CAC', higherIsBetter: true },
+  { metric: 'cacPayback', label: 'CAC Payback', higherIsBetter: false },
+  { metric: 'monthlyBurn', label: 'Burn Rate', higherIsBetter: false },
+  { metric: 'runway', label: 'Runway', higherIsBetter: true },
+];
+
+// Common targets for metrics the industry averages don't cover
+const RULES_OF_THUMB: Partial<Record<UnitEconomicsMetric, number>> = { ltvToCac: 3, cacPayback: 12, runway: 18 };
+
+// Within 10% of the benchmark counts as in line
+const IN_LINE_TOLERANCE = 0.1;
+
+const YEARLY = /year|annual|\/\s*yr/i;
+
+function toMonthly(amount: MoneyAmount, yearly: boolean): MoneyAmount {
+  if (!yearly) return amount;
+  return { ...amount, value: amount.value / 12, maxValue: amount.maxValue !== null ? amount.maxValue / 12 : null };
+}
+
+// "$720K a year" as a monthly amount
+function parseMonthlyAmount(text: string | undefined): MoneyAmount | null {
+  const amount = parseMoneyAmount(text ?? '');
+  return amount && toMonthly(amount, YEARLY.test(text ?? ''));
+}
+
+// Amounts in another currency can't be compared; ones without a currency are taken as-is
+function inCurrency(amount: MoneyAmount | null, currency: Currency): number | null {
+  return amount && (amount.currency === null || amount.currency === currency) ? moneyValue(amount) : null;
+}
+
+function ratio(numerator: number | null, denominator: number | null): number | null {
+  return numerator !== null && denominator !== null && denominator > 0 ? numerator / denominator : null;
+}
+
+export function computeUnitEconomics(inputs: UnitEconomicsInputs): Record<UnitEconomicsMetric, number | null> {
+  const { monthlyPrice, grossMargin, monthlyChurn, cac, monthlyBurn, cash } = inputs;
+  const monthlyGrossProfit = monthlyPrice !== null && grossMargin !== null ? monthlyPrice * (grossMargin / 100) : null;
+  const ltv = ratio(monthlyGrossProfit, monthlyChurn !== null ? monthlyChurn / 100 : null);
+
+  return {
+    ltv,
+    cac,
+    ltvToCac: ratio(ltv, cac),
+    cacPayback: ratio(cac, monthlyGrossProfit),
+    monthlyBurn,
+    runway: ratio(cash, monthlyBurn),
+  };
+}
+
+/**
+ * Benchmarks read from the analysis's industry averages. The runway benchmark
+ * is how long the average round lasts at the average burn rate.
+ */
+export function getIndustryBenchmarks(
+  averages: IndustryAverages | undefined,
+  currency: Currency
+): Partial<Record<UnitEconomicsMetric, number>> {
+  const ltv = inCurrency(parseMoneyAmount(averages?.averageLTV ?? ''), currency);
+  const cac = inCurrency(parseMoneyAmount(averages?.averageCAC ?? ''), currency);
+  const monthlyBurn = inCurrency(parseMonthlyAmount(averages?.averageBurnRate), currency);
+  const funding = inCurrency(parseMoneyAmount(averages?.averageFunding ?? ''), currency);
+
+  const benchmarks: Partial<Record<UnitEconomicsMetric, number | null>> = {
+    ltv,
+    cac,
+    ltvToCac: ratio(ltv, cac),
+    monthlyBurn,
+    runway: ratio(funding, monthlyBurn),
+  };
+  return Object.fromEntries(Object.entries(benchmarks).filter(([, value]) => value !== null)) as Partial<Record<UnitEconomicsMetric, number>>;
+}
+
+export function compareUnitEconomics(inputs: UnitEconomicsInputs, averages: IndustryAverages | undefined): UnitEconomicsRow[] {
+  const values = computeUnitEconomics(inputs);
+  const benchmarks = getIndustryBenchmarks(averages, inputs.currency);
+
+  return METRICS.map(({ metric, label, higherIsBetter }) => {
+    const value = values[metric];
+    const industry = benchmarks[metric];
+    const benchmark = industry ?? RULES_OF_THUMB[metric] ?? null;
+    const difference = value !== null && benchmark ? value / benchmark - 1 : null;
+    const comparison: BenchmarkComparison | null = difference === null
+      ? null
+      : Math.abs(difference) <= IN_LINE_TOLERANCE ? 'in line' : difference > 0 ? 'above' : 'below';
+
+    return {
+      metric,
+      label,
+      value,
+      benchmark,
+      benchmarkSource: industry !== undefined ? 'industry' : benchmark !== null ? 'rule of thumb' : null,
+      comparison,
+      favorable: comparison === 'above' || comparison === 'below' ? (comparison === 'above') === higherIsBetter : null,
+    };
+  });
+}
+
+export function formatUnitEconomicsValue(metric: UnitEconomicsMetric, value: number, currency: Currency): string {
+  switch (metric) {
+    case 'ltvToCac':
+      return `${value.toFixed(1)}x`;
+    case 'cacPayback':
+    case 'runway':
+      return `${value.toFixed(1)} months`;
+    case 'monthlyBurn':
+      return `${formatMoney(value, currency)} / month`;
+    default:
+      return formatMoney(value, currency);
+  }
+}
+
+/**
+ * Starting values for the panel: what was saved with the analysis, otherwise
+ * the burn rate and runway stated in the deck. The key metrics' CAC and burn
+ * rate are the industry averages unless the deck stated them, so they are left
+ * for the user to enter rather than benchmarked against themselves.
+ */
+export function getDefaultUnitEconomics(result: Pick<AnalysisResult, 'unitEconomics' | 'deckFigures'>): UnitEconomicsInputs {
+  if (result.unitEconomics) return result.unitEconomics;
+
+  const burnFigure = result.deckFigures?.find((figure) => figure.kind === 'burnRate');
+  const runwayFigure = result.deckFigures?.find((figure) => figure.kind === 'runway');
+
+  const burn = burnFigure
+    ? toMonthly({ value: burnFigure.value, maxValue: burnFigure.maxValue, currency: burnFigure.unit as Currency }, burnFigure.period === 'year')
+    : null;
+  const currency = burn?.currency ?? 'USD';
+  const monthlyBurn = inCurrency(burn, currency);
+
+  return {
+    monthlyPrice: null,
+    grossMargin: null,
+    monthlyChurn: null,
+    cac: null,
+    monthlyBurn,
+    cash: monthlyBurn !== null && runwayFigure ? monthlyBurn * runwayFigure.value : null,
+    currency,
+  };
+}
@@ -2,7 +2,8 @@
 const nextConfig = {
   reactStrictMode: true,
   experimental: {
-    esmExternals: true
+    esmExternals: true,
+    serverComponentsExternalPackages: ['pdf.js-extract', 'tesseract.js', 'officegen', 'pdfkit']
   },
   webpack: (config, { isServer }) => {
     if (!isServer) {
@@ -1,19 +1,64 @@
 declare module 'officegen' {
+  import { Writable } from 'stream';
+
   interface OfficeGenOptions {
     type: string;
+    title?: string;
+    creator?: string;
+  }
+
+  interface TextOptions {
+    bold?: boolean;
+    italic?: boolean;
+    color?: string;
+    font_size?: number;
+    font_face?: string;
+    align?: string;
+    x?: number | string;
+    y?: number | string;
+    cx?: number | string;
+    cy?: number | string;
+  }
+
+  interface Paragraph {
+    addText(text: string, options?: TextOptions): void;
+    addLineBreak(): void;
+  }
+
+  interface TableCell {
+    val: string | number;
+    opts?: Record<string, unknown>;
   }
 
+  type TableRow = (string | number | TableCell)[];
+
   interface Slide {
     getTexts(): { text: string }[];
+    name?: string;
+    back?: string;
+    addText(text: string | { text: string; options?: TextOptions }[], options?: TextOptions): void;
+    addImage(imagePath: string, options?: TextOptions): void;
+    addTable(rows: TableRow[], options?: Record<string, unknown>): void;
+    setSpeakerNote(note: string): void;
   }
 
   interface OfficeGenInstance {
+    on(event: 'finalize', callback: (written: number) => void): void;
     on(event: string, callback: (err: Error) => void): void;
     load(buffer: Buffer, callback: (err: Error | null) => void): void;
     getSlides(): Slide[];
+    generate(output: Writable): void;
+    // docx
+    createP(options?: { align?: string }): Paragraph;
+    createTable(rows: TableRow[], style?: Record<string, unknown>): void;
+    putPageBreak(): void;
+    // pptx
+    setDocTitle(title: string): void;
+    makeNewSlide(options?: { userLayout?: string }): Slide;
+    makeTitleSlide(title: string, subTitle?: string): Slide;
   }
 
   function officegen(options: string | OfficeGenOptions): OfficeGenInstance;
 
   export = officegen;
-}
\ No newline at end of file
+}
@@ -0,0 +1,40 @@
+declare module 'pdf.js-extract/lib/pdfjs/pdf.js' {
+  export interface PdfImageData {
+    width: number;
+    height: number;
+    kind: number;
+    data: Uint8ClampedArray | Uint8Array;
+  }
+
+  interface PDFObjects {
+    get(objId: string, callback: (data: PdfImageData) => void): void;
+  }
+
+  interface OperatorList {
+    fnArray: number[];
+    argsArray: any[][];
+  }
+
+  interface PDFPageProxy {
+    objs: PDFObjects;
+    commonObjs: PDFObjects;
+    getOperatorList(): Promise<OperatorList>;
+    cleanup(): void;
+  }
+
+  interface PDFDocumentProxy {
+    numPages: number;
+    getPage(pageNumber: number): Promise<PDFPageProxy>;
+    destroy(): Promise<void>;
+  }
+
+  export const OPS: {
+    paintJpegXObject: number;
+    paintImageXObject: number;
+    [name: string]: number;
+  };
+
+  export function getDocument(options: { data: Uint8Array; verbosity?: number }): {
+    promise: Promise<PDFDocumentProxy>;
+  };
+}